@@ -0,0 +1,101 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { getTestFile, cleanAllFiles } from "../test/test-file-gen";
+import path from "node:path";
+
+import { applyCLIArgs, loadCLIConfig, parseCLIArgs } from "./cli";
+
+afterAll(async () => {
+  await cleanAllFiles();
+});
+
+describe("parseCLIArgs()", () => {
+  it("parses build flags and entrypoints", () => {
+    expect(
+      parseCLIArgs([
+        "--outdir",
+        "./dist",
+        "--minify",
+        "-e",
+        "react",
+        "-d",
+        'DEBUG="1"',
+        "./a.ts",
+      ])
+    ).toMatchObject({
+      flags: {
+        outdir: "./dist",
+        minify: true,
+        external: ["react"],
+        define: ['DEBUG="1"'],
+      },
+      entrypoints: ["./a.ts"],
+    });
+  });
+
+  it("throws on invalid choices", () => {
+    expect(() => parseCLIArgs(["--format", "amd"])).toThrow(
+      "--format must be one of esm, cjs, iife"
+    );
+  });
+});
+
+describe("loadCLIConfig()", () => {
+  it("loads one config or several", async () => {
+    const singleFile = await getTestFile(
+      'export default { entrypoints: ["./a.ts"] };\n'
+    );
+    expect(await loadCLIConfig(singleFile.name!)).toEqual({
+      default: { entrypoints: ["./a.ts"] },
+    });
+
+    const multiFile = await getTestFile(
+      'export default { web: { entrypoints: ["./a.ts"] } };\n'
+    );
+    expect(await loadCLIConfig(path.resolve(multiFile.name!))).toEqual({
+      web: { entrypoints: ["./a.ts"] },
+    });
+  });
+});
+
+describe("applyCLIArgs()", () => {
+  it("overrides every config with flags", () => {
+    const targets = {
+      web: {
+        entrypoints: ["./a.ts"],
+        outdir: "./out",
+        define: { A: "1" },
+      },
+      server: { entrypoints: ["./b.ts"], minify: false },
+    };
+    const cliArgs = parseCLIArgs([
+      "--outdir",
+      "./dist",
+      "--minify",
+      "-d",
+      "B=2",
+    ]);
+    expect(applyCLIArgs(targets, cliArgs)).toEqual({
+      web: {
+        entrypoints: ["./a.ts"],
+        outdir: "./dist",
+        minify: true,
+        define: { A: "1", B: "2" },
+      },
+      server: {
+        entrypoints: ["./b.ts"],
+        outdir: "./dist",
+        minify: true,
+        define: { B: "2" },
+      },
+    });
+  });
+
+  it("builds the entrypoints given without a config", () => {
+    expect(applyCLIArgs(undefined, parseCLIArgs(["./a.ts"]))).toEqual({
+      default: { entrypoints: ["./a.ts"] },
+    });
+    expect(() => applyCLIArgs(undefined, parseCLIArgs([]))).toThrow(
+      "no entrypoints given"
+    );
+  });
+});
@@ -0,0 +1,362 @@
+#!/usr/bin/env bun
+/**
+ * the `bun-build-watch` command, which builds the configs exported by
+ * `bun-build-watch.config.ts` and the entrypoints given as arguments, watching
+ * them with `--watch`
+ * @module cli
+ */
+
+import type { BuildConfig } from "bun";
+
+import { existsSync } from "node:fs";
+import { constants } from "node:os";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+import {
+  DEFAULT_TARGET,
+  MultiBuildWatcher,
+  logBuildOutput,
+  type BuildTargets,
+} from ".";
+import DevServer from "./dev-server";
+import ProcessRunner, { type ProcessRunnerOptions } from "./process-runner";
+
+export const DEFAULT_CONFIG_PATH = "./bun-build-watch.config.ts";
+
+/**
+ * what `bun-build-watch.config.ts` exports by default, either one config or
+ * several keyed by the name of their target
+ */
+export type CLIConfig = BuildConfig | BuildTargets;
+
+const { signals } = constants;
+
+const TARGETS = ["browser", "bun", "node"] as const;
+const FORMATS = ["esm", "cjs", "iife"] as const;
+const SOURCEMAPS = ["none", "linked", "inline", "external"] as const;
+
+const ARGS_CONFIG = {
+  options: {
+    help: {
+      type: "boolean",
+      short: "h",
+      description: "Print help text",
+    },
+    config: {
+      type: "string",
+      short: "c",
+      description: `Load configs from this file. Defaults to ${DEFAULT_CONFIG_PATH}`,
+    },
+    watch: {
+      type: "boolean",
+      short: "w",
+      description: "Build after file changes",
+    },
+    rescan: {
+      type: "boolean",
+      description: "Rescan the dependency tree after file changes",
+    },
+    "no-clear-screen": {
+      type: "boolean",
+      description: "Don't clear the screen after file changes",
+    },
+    exclude: {
+      type: "string",
+      multiple: true,
+      short: "x",
+      description: "Exclude these globs",
+    },
+    quiet: {
+      type: "boolean",
+      short: "q",
+      description: "Don't print anything",
+    },
+    serve: {
+      type: "boolean",
+      short: "s",
+      description: "Serve outdir, reloading pages after builds",
+    },
+    port: {
+      type: "string",
+      short: "p",
+      description: "Serve on this port. Defaults to 3000",
+    },
+    exec: {
+      type: "string",
+      description: "Run this shell command after every successful build",
+    },
+    "kill-signal": {
+      type: "string",
+      description: "Stop the previous --exec process with this signal",
+    },
+    "kill-timeout": {
+      type: "string",
+      description: "Send SIGKILL if it didn't stop after this many ms",
+    },
+    outdir: {
+      type: "string",
+      description: "Write outputs to this directory",
+    },
+    target: {
+      type: "string",
+      description: `Build for this environment: ${TARGETS.join(", ")}`,
+    },
+    format: {
+      type: "string",
+      description: `Output this module format: ${FORMATS.join(", ")}`,
+    },
+    minify: {
+      type: "boolean",
+      description: "Minify outputs",
+    },
+    sourcemap: {
+      type: "string",
+      description: `Generate source maps: ${SOURCEMAPS.join(", ")}`,
+    },
+    splitting: {
+      type: "boolean",
+      description: "Split code shared by entrypoints into chunks",
+    },
+    external: {
+      type: "string",
+      multiple: true,
+      short: "e",
+      description: "Don't bundle these imports",
+    },
+    define: {
+      type: "string",
+      multiple: true,
+      short: "d",
+      description: "Replace a global with an expression, as KEY=VALUE",
+    },
+    naming: {
+      type: "string",
+      description: "Name outputs after this template, e.g. [dir]/[name].[ext]",
+    },
+  },
+  allowPositionals: true,
+} as const;
+
+function parseFlags(args: string[]) {
+  return parseArgs({ ...ARGS_CONFIG, args });
+}
+
+export type CLIFlags = ReturnType<typeof parseFlags>["values"];
+
+export type CLIArgs = Readonly<{ flags: CLIFlags; entrypoints: string[] }>;
+
+/** parses the arguments of `bun-build-watch`, throwing if any are invalid */
+export function parseCLIArgs(args: string[]): CLIArgs {
+  const { values: flags, positionals } = parseFlags(args);
+  checkChoice("target", flags.target, TARGETS);
+  checkChoice("format", flags.format, FORMATS);
+  checkChoice("sourcemap", flags.sourcemap, SOURCEMAPS);
+  checkChoice("kill-signal", flags["kill-signal"], Object.keys(signals));
+  if (flags.port !== undefined && !/^\d+$/.test(flags.port)) {
+    throw new TypeError(`--port must be a number, got "${flags.port}"`);
+  }
+  if (
+    flags["kill-timeout"] !== undefined &&
+    !(Number(flags["kill-timeout"]) >= 0)
+  ) {
+    throw new TypeError(
+      `--kill-timeout must be a number of milliseconds, got "${flags["kill-timeout"]}"`
+    );
+  }
+  return { flags, entrypoints: positionals };
+}
+
+function checkChoice(
+  flag: string,
+  value: string | undefined,
+  choices: readonly string[]
+): void {
+  if (value !== undefined && !choices.includes(value)) {
+    throw new TypeError(
+      `--${flag} must be one of ${choices.join(", ")}, got "${value}"`
+    );
+  }
+}
+
+/** parses `--define` flags like `process.env.NODE_ENV="production"` */
+function parseDefines(defines: readonly string[]): Record<string, string> {
+  return Object.fromEntries(
+    defines.map((define) => {
+      const separatorIndex = define.indexOf("=");
+      if (separatorIndex <= 0) {
+        throw new TypeError(
+          `--define must look like KEY=VALUE, got "${define}"`
+        );
+      }
+      return [
+        define.slice(0, separatorIndex),
+        define.slice(separatorIndex + 1),
+      ];
+    })
+  );
+}
+
+export function usage(): string {
+  const flags = Object.entries(ARGS_CONFIG.options).map(([longName, info]) => {
+    const cmd =
+      "short" in info ?
+        `  -${info.short}, --${longName}`.padEnd(33)
+      : `      --${longName}`.padEnd(33);
+    return `${cmd}${info.description}`;
+  });
+  return `Usage: bun-build-watch [...flags] [...entrypoints]\n\nFlags:\n${flags.join("\n")}`;
+}
+
+/**
+ * loads the configs of a config file, or `undefined` if `configPath` wasn't
+ * given and the default config file doesn't exist
+ */
+export async function loadCLIConfig(
+  configPath: string | undefined
+): Promise<BuildTargets | undefined> {
+  const fullPath = path.resolve(configPath ?? DEFAULT_CONFIG_PATH);
+  if (configPath === undefined && !existsSync(fullPath)) return undefined;
+
+  const { default: config } = (await import(fullPath)) as {
+    default: CLIConfig | undefined;
+  };
+  if (typeof config !== "object" || config === null) {
+    throw new TypeError(
+      `${path.relative(process.cwd(), fullPath)} must export a config by default`
+    );
+  }
+  return Array.isArray(config.entrypoints) ?
+      { [DEFAULT_TARGET]: config as BuildConfig }
+    : (config as BuildTargets);
+}
+
+/**
+ * applies the entrypoints and build flags to every config, which override the
+ * config file
+ */
+export function applyCLIArgs(
+  targets: BuildTargets | undefined,
+  { flags, entrypoints }: CLIArgs
+): BuildTargets {
+  const overrides: Partial<BuildConfig> = Object.fromEntries(
+    Object.entries({
+      outdir: flags.outdir,
+      target: flags.target,
+      format: flags.format,
+      minify: flags.minify,
+      sourcemap: flags.sourcemap,
+      splitting: flags.splitting,
+      external: flags.external,
+      naming: flags.naming,
+    }).filter(([, value]) => value !== undefined)
+  );
+  const defines = parseDefines(flags.define ?? []);
+
+  let configs = targets ?? { [DEFAULT_TARGET]: { entrypoints } };
+  if (entrypoints.length > 0) {
+    const names = Object.keys(configs);
+    if (names.length !== 1) {
+      throw new TypeError(
+        `entrypoints can't be given for several configs: ${names.join(", ")}`
+      );
+    }
+    configs = { [names[0]]: { ...configs[names[0]], entrypoints } };
+  }
+
+  const entries = Object.entries(configs);
+  if (entries.every(([, config]) => config.entrypoints.length === 0)) {
+    throw new TypeError(
+      `no entrypoints given and no configs in ${DEFAULT_CONFIG_PATH}`
+    );
+  }
+
+  return Object.fromEntries(
+    entries.map(([name, config]) => [
+      name,
+      {
+        ...config,
+        ...overrides,
+        ...(flags.define && { define: { ...config.define, ...defines } }),
+      },
+    ])
+  );
+}
+
+/** runs `bun-build-watch` with `args`, returning its exit code */
+export async function main(args: string[]): Promise<number> {
+  let targets: BuildTargets;
+  let flags: CLIFlags;
+  try {
+    const cliArgs = parseCLIArgs(args);
+    flags = cliArgs.flags;
+    if (flags.help) {
+      console.log(usage());
+      return 0;
+    }
+    targets = applyCLIArgs(await loadCLIConfig(flags.config), cliArgs);
+    if (flags.serve && Object.values(targets)[0].outdir === undefined) {
+      throw new TypeError("--serve needs --outdir or an outdir in the config");
+    }
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    console.error(`\n${usage()}`);
+    return 1;
+  }
+
+  const runnerOptions: ProcessRunnerOptions = {
+    killSignal: flags["kill-signal"] as NodeJS.Signals | undefined,
+    killTimeout:
+      flags["kill-timeout"] === undefined ?
+        undefined
+      : Number(flags["kill-timeout"]),
+  };
+
+  if (!flags.watch) {
+    let success = true;
+    for (const [name, buildConfig] of Object.entries(targets)) {
+      const buildOutput = await Bun.build({ throw: false, ...buildConfig });
+      success &&= buildOutput.success;
+      if (flags.quiet) continue;
+      if (Object.keys(targets).length > 1) console.log(`${name}:`);
+      logBuildOutput(buildOutput);
+    }
+    if (!success) return 1;
+    if (flags.exec === undefined) return 0;
+
+    const runner = new ProcessRunner(flags.exec, runnerOptions);
+    await runner.restart();
+    return await runner.subprocess!.exited;
+  }
+
+  const watcher = new MultiBuildWatcher(targets, {
+    rescan: flags.rescan,
+    clearScreen: !flags["no-clear-screen"],
+    exclude: flags.exclude,
+    quiet: flags.quiet,
+    onSuccess: flags.exec,
+    ...runnerOptions,
+  });
+  const devServer =
+    flags.serve ?
+      new DevServer(watcher, {
+        port: flags.port === undefined ? undefined : Number(flags.port),
+      })
+    : undefined;
+  devServer?.start();
+  if (devServer && !flags.quiet) {
+    // build outputs clear the screen, so keep the URL below them
+    watcher.on("build", () => console.log(`serving ${devServer.url}`));
+  }
+  await watcher.watch();
+
+  await new Promise((resolve) => process.once("SIGINT", resolve));
+  devServer?.stop();
+  watcher.close();
+  await watcher.runner?.stop();
+  return 0;
+}
+
+if (import.meta.main) {
+  process.exitCode = await main(Bun.argv.slice(2));
+}
@@ -1,17 +1,42 @@
-import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import type { BunFile, BunPlugin } from "bun";
+
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterAll,
+  afterEach,
+  mock,
+} from "bun:test";
 import { mockListeners } from "../test/mocks";
 import {
   getTestFile,
   cleanCurrentFiles,
   cleanAllFiles,
 } from "../test/test-file-gen";
+import { once } from "node:events";
+import * as fs from "node:fs";
+import { rename, rm, symlink, unlink } from "node:fs/promises";
+import path from "node:path";
+
 import DependencyWatcher, { type DepWatchEvents } from "./dep-watcher";
+import type { ChainablePluginBuilder } from "./scan-plugins";
+import {
+  FileWatchBackend,
+  PollingWatchBackend,
+  type WatchListeners,
+} from "./watch-backend";
 
 const TEST_FILE_PATH = "./test/files/a-file.ts";
+const TSCONFIG_PATH = path.resolve("tsconfig.json");
 
 const EXPORT_TRUE_TEXT = "export default true;\n";
 const EXPORT_FALSE_TEXT = "export default false;\n";
 
+const importDepText = (dep: string) =>
+  `import bool from "${dep}";\nexport default !bool;\n`;
+
 const DEP_WATCH_EVENTS = ["watch", "change", "close"] as const;
 
 beforeEach(async () => {
@@ -54,6 +79,869 @@ it("throws when given an invalid entrypoint", async () => {
   }
 });
 
+it("watches cyclic imports", async () => {
+  const testFile = await getTestFile();
+  const testDepFile = await getTestFile();
+  await testFile.write(importDepText(`./${path.basename(testDepFile.name!)}`));
+  await testDepFile.write(importDepText(`./${path.basename(testFile.name!)}`));
+
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+  const cycle = once(watcher, "cycle");
+
+  try {
+    const paths = await watcher.watch();
+    expect(paths).toHaveLength(2);
+    expect(watcher.graph.importersOf(path.resolve(testFile.name!))).toEqual([
+      path.resolve(testDepFile.name!),
+    ]);
+    expect(await cycle).toEqual([
+      [
+        path.resolve(testFile.name!),
+        path.resolve(testDepFile.name!),
+        path.resolve(testFile.name!),
+      ],
+    ]);
+  } finally {
+    watcher.close();
+  }
+});
+
+it("watches for files that resolve unresolved imports", async () => {
+  const testFile = await getTestFile();
+  const testDepFile = await getTestFile();
+  await testDepFile.delete();
+  await testFile.write(
+    importDepText(`./${path.basename(testDepFile.name!, ".ts")}`)
+  );
+
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+
+  try {
+    expect(await watcher.watch()).toEqual([path.resolve(testFile.name!)]);
+
+    const add = once(watcher, "add");
+    await testDepFile.write(EXPORT_TRUE_TEXT);
+    expect(await add).toEqual([path.resolve(testDepFile.name!)]);
+    expect(watcher.graph.files()).toEqual([
+      path.resolve(testFile.name!),
+      path.resolve(testDepFile.name!),
+    ]);
+  } finally {
+    watcher.close();
+  }
+});
+
+it("emits one add event when a directory reports a file twice", async () => {
+  const testFile = await getTestFile();
+  const testDepFile = await getTestFile();
+  await testDepFile.delete();
+  await testFile.write(
+    importDepText(`./${path.basename(testDepFile.name!, ".ts")}`)
+  );
+
+  let watchListeners: WatchListeners | undefined;
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+    mode: (listeners) => {
+      watchListeners = listeners;
+      return new FileWatchBackend(listeners);
+    },
+  });
+  const listeners = mockListeners(watcher, ["add"]);
+
+  try {
+    await watcher.watch();
+
+    const add = once(watcher, "add");
+    await testDepFile.write(EXPORT_TRUE_TEXT);
+    watchListeners!.dir(path.resolve(testDepFile.name!));
+    watchListeners!.dir(path.resolve(testDepFile.name!));
+    await add;
+    await Bun.sleep(100);
+    expect(listeners.add).toHaveBeenCalledTimes(1);
+  } finally {
+    watcher.close();
+    listeners.cleanup();
+  }
+});
+
+it("watches assets and the stylesheets they import", async () => {
+  const testFile = await getTestFile("", ".mjs");
+  const testStyleFile = await getTestFile("", ".css");
+  const testImportedStyleFile = await getTestFile("", ".css");
+  const testImageFile = await getTestFile("", ".png");
+  const testDataFile = await getTestFile("{}", ".json");
+  await testFile.write(
+    `import "./${path.basename(testStyleFile.name!)}";\n` +
+      `import data from "./${path.basename(testDataFile.name!)}";\n`
+  );
+  await testStyleFile.write(
+    `@import "${path.basename(testImportedStyleFile.name!)}";\n` +
+      `a { background: url("./${path.basename(testImageFile.name!)}"); }\n` +
+      `b { background: url(https://example.com/image.png); }\n`
+  );
+
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+
+  try {
+    await watcher.watch();
+    expect(watcher.graph.files().toSorted()).toEqual(
+      [
+        testFile,
+        testStyleFile,
+        testImportedStyleFile,
+        testImageFile,
+        testDataFile,
+      ]
+        .map((file) => path.resolve(file.name!))
+        .toSorted()
+    );
+
+    const change = once(watcher, "change");
+    await testImportedStyleFile.write("a { color: red; }\n");
+    expect(await change).toMatchObject([
+      { kind: "change", path: path.resolve(testImportedStyleFile.name!) },
+    ]);
+  } finally {
+    watcher.close();
+  }
+});
+
+it("watches the scripts, stylesheets and media of HTML pages", async () => {
+  const testFile = await getTestFile("", ".html");
+  const testScriptFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const testStyleFile = await getTestFile("", ".css");
+  const testImageFile = await getTestFile("", ".png");
+  await testFile.write(
+    `<html><head>\n` +
+      `<link rel="stylesheet" href="./${path.basename(testStyleFile.name!)}">\n` +
+      `<link rel="preconnect" href="https://example.com">\n` +
+      `</head><body>\n` +
+      `<img src=${path.basename(testImageFile.name!)}>\n` +
+      `<a href="./missing.html">a page</a>\n` +
+      `<!-- <script src="./missing.ts"></script> -->\n` +
+      `<script type="module" src="./${path.basename(testScriptFile.name!)}"></script>\n` +
+      `</body></html>\n`
+  );
+
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+
+  try {
+    await watcher.watch();
+    expect(watcher.graph.files().toSorted()).toEqual(
+      [testFile, testScriptFile, testStyleFile, testImageFile]
+        .map((file) => path.resolve(file.name!))
+        .toSorted()
+    );
+    expect(watcher.graph.unresolvedImports().size).toBe(0);
+
+    const change = once(watcher, "change");
+    await testScriptFile.write(EXPORT_FALSE_TEXT);
+    expect(await change).toMatchObject([
+      { kind: "change", path: path.resolve(testScriptFile.name!) },
+    ]);
+  } finally {
+    watcher.close();
+  }
+});
+
+it("ignores imports in stylesheet comments", async () => {
+  const testFile = await getTestFile("", ".mjs");
+  const testStyleFile = await getTestFile("", ".css");
+  const testImageFile = await getTestFile("", ".png");
+  await testFile.write(`import "./${path.basename(testStyleFile.name!)}";\n`);
+  await testStyleFile.write(
+    `/* @import "./missing.css"; */\n` +
+      `a { background: /* url(./missing.png) */ none; }\n` +
+      `b::before { content: "/*"; background: url("./${path.basename(testImageFile.name!)}"); }\n`
+  );
+
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+
+  try {
+    await watcher.watch();
+    expect(watcher.graph.files().toSorted()).toEqual(
+      [testFile, testStyleFile, testImageFile]
+        .map((file) => path.resolve(file.name!))
+        .toSorted()
+    );
+    expect(watcher.graph.unresolvedImports().size).toBe(0);
+  } finally {
+    watcher.close();
+  }
+});
+
+it("reports scan errors and scans the file again when it changes", async () => {
+  const testFile = await getTestFile(importDepText("not-a-package"));
+  const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const brokenFile = await getTestFile("export default (;\n");
+  const typoFile = await getTestFile(importDepText("./utlis"));
+  const testFilePath = path.resolve(testFile.name!);
+
+  const watcher = new DependencyWatcher([
+    testFilePath,
+    path.resolve(brokenFile.name!),
+    path.resolve(typoFile.name!),
+  ]);
+  const listeners = mockListeners(watcher, ["scan-error"]);
+
+  try {
+    await watcher.watch();
+    expect(listeners["scan-error"]).toBeCalledTimes(3);
+    expect(listeners["scan-error"]).toBeCalledWith({
+      file: testFilePath,
+      specifier: "not-a-package",
+      reason: expect.any(String),
+    });
+    expect(listeners["scan-error"]).toBeCalledWith({
+      file: path.resolve(typoFile.name!),
+      specifier: "./utlis",
+      reason: expect.stringContaining("./utlis"),
+    });
+    // the file may still be created, which scans its importer again
+    expect([...watcher.graph.unresolvedImports().keys()]).toContain(
+      path.resolve("./test/files/utlis")
+    );
+    expect(listeners["scan-error"]).toBeCalledWith({
+      file: path.resolve(brokenFile.name!),
+      specifier: undefined,
+      reason: expect.any(String),
+    });
+
+    const change = once(watcher, "change");
+    await testFile.write(
+      importDepText(`./${path.basename(testDepFile.name!, ".ts")}`)
+    );
+    await change;
+    expect(watcher.graph.files()).toContain(path.resolve(testDepFile.name!));
+    expect(listeners["scan-error"]).toBeCalledTimes(3);
+  } finally {
+    watcher.close();
+    listeners.cleanup();
+  }
+});
+
+it("ignores saves that don't change the file's contents", async () => {
+  const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const testFilePath = path.resolve(testFile.name!);
+
+  const watcher = new DependencyWatcher([testFilePath]);
+  const listeners = mockListeners(watcher, DEP_WATCH_EVENTS);
+
+  try {
+    await watcher.watch();
+    expect(watcher.hashes.get(testFilePath)).toBe(Bun.hash(EXPORT_TRUE_TEXT));
+
+    await testFile.write(EXPORT_TRUE_TEXT);
+    await Bun.sleep(50);
+    expect(listeners.change).not.toBeCalled();
+
+    const change = once(watcher, "change");
+    await testFile.write(EXPORT_FALSE_TEXT);
+    await change;
+    expect(watcher.hashes.get(testFilePath)).toBe(Bun.hash(EXPORT_FALSE_TEXT));
+  } finally {
+    watcher.close();
+    listeners.cleanup();
+  }
+});
+
+it("re-scans every file when a tsconfig changes", async () => {
+  const testFile = await getTestFile(importDepText("@test/dep"));
+  const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const otherDepFile = await getTestFile(EXPORT_FALSE_TEXT);
+  const tsconfigFile = Bun.file("./test/files/tsconfig.json");
+  const tsconfigText = (depFile: BunFile) =>
+    JSON.stringify({
+      extends: "../../tsconfig.json",
+      compilerOptions: {
+        paths: { "@test/dep": [`./${path.basename(depFile.name!)}`] },
+      },
+    });
+  await tsconfigFile.write(tsconfigText(testDepFile));
+
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+
+  try {
+    expect(await watcher.watch()).toEqual([
+      path.resolve(testFile.name!),
+      path.resolve(testDepFile.name!),
+    ]);
+    expect(watcher.backend.files()).toContain(TSCONFIG_PATH);
+
+    const change = once(watcher, "change");
+    await tsconfigFile.write(tsconfigText(otherDepFile));
+    expect(await change).toMatchObject([
+      { kind: "change", path: path.resolve(tsconfigFile.name!) },
+    ]);
+    expect(watcher.graph.files()).toEqual([
+      path.resolve(testFile.name!),
+      path.resolve(otherDepFile.name!),
+    ]);
+  } finally {
+    watcher.close();
+    await tsconfigFile.delete();
+  }
+});
+
+it("re-scans every file when a tsconfig is created", async () => {
+  const testFile = await getTestFile(importDepText("@test/dep"));
+  const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const tsconfigFile = Bun.file("./test/files/tsconfig.json");
+
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+
+  try {
+    expect(await watcher.watch()).toEqual([path.resolve(testFile.name!)]);
+
+    const add = once(watcher, "add");
+    await tsconfigFile.write(
+      JSON.stringify({
+        extends: "../../tsconfig.json",
+        compilerOptions: {
+          paths: { "@test/dep": [`./${path.basename(testDepFile.name!)}`] },
+        },
+      })
+    );
+    expect(await add).toEqual([path.resolve(tsconfigFile.name!)]);
+    expect(watcher.graph.files()).toEqual([
+      path.resolve(testFile.name!),
+      path.resolve(testDepFile.name!),
+    ]);
+    expect(watcher.backend.files()).toContain(path.resolve(tsconfigFile.name!));
+  } finally {
+    watcher.close();
+    await tsconfigFile.delete();
+  }
+});
+
+it("reports a broken tsconfig as a scan error", async () => {
+  const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const tsconfigFile = Bun.file("./test/files/tsconfig.json");
+  await tsconfigFile.write(`{ "extends": "./missing-tsconfig.json" }`);
+
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+  const listeners = mockListeners(watcher, ["scan-error"]);
+
+  try {
+    expect(await watcher.watch()).toEqual([path.resolve(testFile.name!)]);
+    expect(listeners["scan-error"]).toHaveBeenCalledWith({
+      file: path.resolve(tsconfigFile.name!),
+      specifier: undefined,
+      reason: expect.any(String),
+    });
+    expect(watcher.backend.files()).toContain(path.resolve(tsconfigFile.name!));
+  } finally {
+    watcher.close();
+    listeners.cleanup();
+    await tsconfigFile.delete();
+  }
+});
+
+it("re-scans every file when an implicit input changes", async () => {
+  const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const testInputFile = await getTestFile("A=1\n", ".env");
+
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+    implicitInputs: ["./test/files/*.env"],
+  });
+
+  try {
+    await watcher.watch();
+    expect(watcher.backend.files()).toContain(
+      path.resolve(testInputFile.name!)
+    );
+
+    const watch = once(watcher, "watch");
+    const change = once(watcher, "change");
+    await testInputFile.write("A=2\n");
+    await watch;
+    expect(await change).toMatchObject([
+      { kind: "change", path: path.resolve(testInputFile.name!) },
+    ]);
+
+    const add = once(watcher, "add");
+    const newInputFile = await getTestFile("B=1\n", ".env");
+    expect(await add).toEqual([path.resolve(newInputFile.name!)]);
+    expect(watcher.backend.files()).toContain(path.resolve(newInputFile.name!));
+  } finally {
+    watcher.close();
+  }
+});
+
+it("reports changes made while re-scanning every file", async () => {
+  const testFile = await getTestFile();
+  const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const testInputFile = await getTestFile("A=1\n", ".env");
+  await testFile.write(
+    `import "slow:dep";\n` +
+      importDepText(`./${path.basename(testDepFile.name!, ".ts")}`)
+  );
+
+  // the first scan runs right away, the next one waits until released
+  let scanned = Promise.resolve();
+  let startScan = () => {};
+  const plugin: BunPlugin = {
+    name: "slow",
+    setup(build) {
+      build.onResolve({ filter: /^slow:/ }, async () => {
+        startScan();
+        await scanned;
+        return { path: "slow:dep", external: true };
+      });
+    },
+  };
+
+  const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+    implicitInputs: ["./test/files/*.env"],
+    plugins: [plugin],
+  });
+
+  try {
+    await watcher.watch();
+
+    let releaseScan = () => {};
+    scanned = new Promise((resolve) => (releaseScan = resolve));
+    const scanStarted = new Promise<void>((resolve) => (startScan = resolve));
+    const watch = once(watcher, "watch");
+    await testInputFile.write("A=2\n");
+    await scanStarted;
+
+    const change = once(watcher, "change");
+    await testDepFile.write(EXPORT_FALSE_TEXT);
+    expect(await change).toMatchObject([
+      { kind: "change", path: path.resolve(testDepFile.name!) },
+    ]);
+
+    releaseScan();
+    await watch;
+    expect(watcher.backend.files()).toContain(path.resolve(testDepFile.name!));
+    expect(watcher.hashes.get(path.resolve(testDepFile.name!))).toBe(
+      Bun.hash(EXPORT_FALSE_TEXT)
+    );
+  } finally {
+    watcher.close();
+  }
+});
+
+it("re-scans every file after an entrypoint was deleted", async () => {
+  const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const deletedFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const testInputFile = await getTestFile("A=1\n", ".env");
+
+  const watcher = new DependencyWatcher(
+    [path.resolve(testFile.name!), path.resolve(deletedFile.name!)],
+    { implicitInputs: ["./test/files/*.env"] }
+  );
+  const listeners = mockListeners(watcher, ["watch-error"]);
+
+  try {
+    await watcher.watch();
+
+    const unlink = once(watcher, "unlink");
+    await deletedFile.delete();
+    await unlink;
+
+    const watch = once(watcher, "watch");
+    await testInputFile.write("A=2\n");
+    expect(await watch).toEqual([
+      [path.resolve(testFile.name!), path.resolve(deletedFile.name!)],
+    ]);
+    expect(watcher.backend.files()).toContain(path.resolve(testFile.name!));
+    expect(listeners["watch-error"]).not.toBeCalled();
+  } finally {
+    watcher.close();
+    listeners.cleanup();
+  }
+});
+
+describe("renames", () => {
+  it("re-attaches the watch after an atomic save", async () => {
+    const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+    const tempFile = await getTestFile(EXPORT_FALSE_TEXT);
+    const testFilePath = path.resolve(testFile.name!);
+
+    const watcher = new DependencyWatcher([testFilePath]);
+
+    try {
+      await watcher.watch();
+
+      const change = once(watcher, "change");
+      await rename(tempFile.name!, testFilePath);
+      expect(await change).toEqual([
+        { kind: "change", path: testFilePath, timestamp: expect.any(Number) },
+      ]);
+
+      // wait for the watcher to decide the file wasn't deleted
+      await Bun.sleep(100);
+      expect(watcher.backend.files()).toContain(testFilePath);
+
+      const nextChange = once(watcher, "change");
+      await testFile.write(EXPORT_TRUE_TEXT);
+      await nextChange;
+    } finally {
+      watcher.close();
+    }
+  });
+
+  it("emits unlink when a file is deleted", async () => {
+    const testFile = await getTestFile();
+    const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+    await testFile.write(
+      importDepText(`./${path.basename(testDepFile.name!, ".ts")}`)
+    );
+
+    const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+
+    try {
+      await watcher.watch();
+
+      const watch = once(watcher, "watch");
+      const unlinked = once(watcher, "unlink");
+      await unlink(testDepFile.name!);
+      expect(await unlinked).toEqual([path.resolve(testDepFile.name!)]);
+      expect(await watch).toEqual([[path.resolve(testFile.name!)]]);
+      expect(watcher.graph.files()).toEqual([path.resolve(testFile.name!)]);
+
+      const add = once(watcher, "add");
+      await testDepFile.write(EXPORT_TRUE_TEXT);
+      expect(await add).toEqual([path.resolve(testDepFile.name!)]);
+    } finally {
+      watcher.close();
+    }
+  });
+
+  it("emits rename when a file is renamed", async () => {
+    const testFile = await getTestFile();
+    const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+    const renamedFile = await getTestFile();
+    await renamedFile.delete();
+    await testFile.write(
+      importDepText(`./${path.basename(testDepFile.name!, ".ts")}`)
+    );
+
+    const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+
+    try {
+      await watcher.watch();
+
+      const watch = once(watcher, "watch");
+      const renamed = once(watcher, "rename");
+      await rename(testDepFile.name!, renamedFile.name!);
+      expect(await renamed).toEqual([
+        path.resolve(testDepFile.name!),
+        path.resolve(renamedFile.name!),
+      ]);
+      expect(await watch).toEqual([[path.resolve(testFile.name!)]]);
+    } finally {
+      watcher.close();
+    }
+  });
+});
+
+describe("options", () => {
+  describe('mode: "directories"', () => {
+    it("reports changes to watched files only", async () => {
+      const testFile = await getTestFile();
+      const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+      const otherFile = await getTestFile(EXPORT_TRUE_TEXT);
+      await testFile.write(
+        importDepText(`./${path.basename(testDepFile.name!)}`)
+      );
+      const testDepFilePath = path.resolve(testDepFile.name!);
+
+      const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+        mode: "directories",
+      });
+      const listeners = mockListeners(watcher, DEP_WATCH_EVENTS);
+
+      try {
+        await watcher.watch();
+
+        await otherFile.write(EXPORT_FALSE_TEXT);
+        const change = once(watcher, "change");
+        await testDepFile.write(EXPORT_FALSE_TEXT);
+        expect(await change).toEqual([
+          {
+            kind: "change",
+            path: testDepFilePath,
+            timestamp: expect.any(Number),
+          },
+        ]);
+        expect(listeners.change).toBeCalledTimes(1);
+      } finally {
+        watcher.close();
+        listeners.cleanup();
+      }
+    });
+  });
+  describe('mode: "polling"', () => {
+    it("reports changes and deletions", async () => {
+      const testFile = await getTestFile();
+      const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+      await testFile.write(
+        importDepText(`./${path.basename(testDepFile.name!)}`)
+      );
+      const testDepFilePath = path.resolve(testDepFile.name!);
+
+      const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+        mode: "polling",
+        interval: 10,
+      });
+
+      try {
+        await watcher.watch();
+
+        const change = once(watcher, "change");
+        await testDepFile.write(EXPORT_FALSE_TEXT.repeat(2));
+        expect(await change).toEqual([
+          {
+            kind: "change",
+            path: testDepFilePath,
+            timestamp: expect.any(Number),
+          },
+        ]);
+
+        const unlinked = once(watcher, "unlink");
+        await unlink(testDepFilePath);
+        expect(await unlinked).toEqual([testDepFilePath]);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("is used when fs.watch runs out of watches", async () => {
+      const testFile = await getTestFile();
+      const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+      await testFile.write(
+        importDepText(`./${path.basename(testDepFile.name!)}`)
+      );
+
+      const { watch } = fs;
+      mock.module("node:fs", () => ({
+        ...fs,
+        watch: () => {
+          throw Object.assign(new Error("no space left on device"), {
+            code: "ENOSPC",
+          });
+        },
+      }));
+      const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+        interval: 10,
+      });
+
+      try {
+        expect(await watcher.watch()).toEqual([
+          path.resolve(testFile.name!),
+          path.resolve(testDepFile.name!),
+        ]);
+        expect(watcher.backend).toBeInstanceOf(PollingWatchBackend);
+        expect(watcher.backend.files()).toContain(
+          path.resolve(testDepFile.name!)
+        );
+
+        const change = once(watcher, "change");
+        await testDepFile.write(EXPORT_FALSE_TEXT);
+        expect(await change).toMatchObject([
+          { kind: "change", path: path.resolve(testDepFile.name!) },
+        ]);
+      } finally {
+        watcher.close();
+        mock.module("node:fs", () => ({ ...fs, watch }));
+      }
+    });
+
+    it("reports backend errors it can't recover from", async () => {
+      const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+
+      let watchListeners: WatchListeners | undefined;
+      const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+        mode: (listeners) => {
+          watchListeners = listeners;
+          return new PollingWatchBackend(listeners, 10);
+        },
+      });
+      const listeners = mockListeners(watcher, ["watch-error"]);
+
+      try {
+        await watcher.watch();
+
+        const error = new Error("the backend broke");
+        expect(() => watchListeners!.error(error)).not.toThrow();
+        expect(listeners["watch-error"]).toHaveBeenCalledWith(error);
+      } finally {
+        watcher.close();
+        listeners.cleanup();
+      }
+    });
+  });
+
+  describe("include", () => {
+    const PACKAGES_DIR = "./test/files/node_modules";
+    const LINKED_DIR = "./test/files/linked-package";
+
+    const writePackage = async (dirPath: string) => {
+      await Bun.write(
+        path.join(dirPath, "package.json"),
+        JSON.stringify({ name: path.basename(dirPath), main: "index.ts" })
+      );
+      await Bun.write(path.join(dirPath, "index.ts"), EXPORT_TRUE_TEXT);
+    };
+
+    afterEach(async () => {
+      await rm(PACKAGES_DIR, { recursive: true, force: true });
+      await rm(LINKED_DIR, { recursive: true, force: true });
+    });
+
+    it("watches included and symlinked packages", async () => {
+      await writePackage(path.join(PACKAGES_DIR, "included"));
+      await writePackage(path.join(PACKAGES_DIR, "excluded"));
+      await writePackage(LINKED_DIR);
+      await symlink(
+        path.resolve(LINKED_DIR),
+        path.join(PACKAGES_DIR, "linked"),
+        "dir"
+      );
+      const testFile = await getTestFile(
+        `import "included";\nimport "excluded";\nimport "linked";\n`
+      );
+
+      const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+        exclude: [`${PACKAGES_DIR}/**`],
+        include: ["included"],
+      });
+
+      try {
+        await watcher.watch();
+        expect(watcher.graph.files().toSorted()).toEqual(
+          [
+            testFile.name!,
+            path.join(PACKAGES_DIR, "included", "index.ts"),
+            path.join(LINKED_DIR, "index.ts"),
+          ]
+            .map((filePath) => path.resolve(filePath))
+            .toSorted()
+        );
+      } finally {
+        watcher.close();
+      }
+    });
+  });
+
+  describe("findTSConfig", () => {
+    it("resolves paths aliases", async () => {
+      const testFile = await getTestFile();
+      const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+      await testFile.write(
+        importDepText(`@test/${path.basename(testDepFile.name!, ".ts")}`)
+      );
+
+      const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+        findTSConfig: async () => ({
+          compilerOptions: { paths: { "@test/*": ["./test/files/*"] } },
+        }),
+      });
+
+      try {
+        expect(await watcher.watch()).toEqual([
+          path.resolve(testFile.name!),
+          path.resolve(testDepFile.name!),
+        ]);
+      } finally {
+        watcher.close();
+      }
+    });
+  });
+
+  describe("plugins", () => {
+    it("resolves aliases and scans virtual and custom modules", async () => {
+      const testFile = await getTestFile();
+      const testAliasedFile = await getTestFile(EXPORT_TRUE_TEXT);
+      const testVirtualDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+      const testCustomFile = await getTestFile("", ".custom");
+      const testCustomDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+      await testFile.write(
+        `import "alias:dep";\nimport "virtual:dep";\n` +
+          `import "./${path.basename(testCustomFile.name!)}";\n`
+      );
+      await testCustomFile.write(path.resolve(testCustomDepFile.name!));
+
+      const plugin: BunPlugin = {
+        name: "test",
+        setup(build) {
+          build.onResolve({ filter: /^alias:/ }, () => ({
+            path: path.resolve(testAliasedFile.name!),
+          }));
+          build.onResolve({ filter: /^virtual:/ }, ({ path: specifier }) => ({
+            path: specifier,
+            namespace: "test",
+          }));
+          build.onLoad({ filter: /.*/, namespace: "test" }, () => ({
+            contents: importDepText(path.resolve(testVirtualDepFile.name!)),
+            loader: "ts",
+          }));
+          build.onLoad({ filter: /\.custom$/ }, async ({ path: filePath }) => ({
+            contents: importDepText(await Bun.file(filePath).text()),
+            loader: "ts",
+          }));
+        },
+      };
+
+      const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+        plugins: [plugin],
+      });
+
+      try {
+        await watcher.watch();
+        expect(watcher.graph.files().toSorted()).toEqual(
+          [
+            testFile,
+            testAliasedFile,
+            testVirtualDepFile,
+            testCustomFile,
+            testCustomDepFile,
+          ]
+            .map((file) => path.resolve(file.name!))
+            .toSorted()
+        );
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("lets plugins chain hooks and register onStart and onEnd", async () => {
+      const testFile = await getTestFile(`import "alias:dep";\n`);
+      const testAliasedFile = await getTestFile(EXPORT_TRUE_TEXT);
+
+      const plugin: BunPlugin = {
+        name: "test",
+        setup(build) {
+          (build as ChainablePluginBuilder)
+            .onStart(() => {})
+            .onEnd(() => {})
+            .onResolve({ filter: /^alias:/ }, () => ({
+              path: path.resolve(testAliasedFile.name!),
+            }));
+        },
+      };
+
+      const watcher = new DependencyWatcher([path.resolve(testFile.name!)], {
+        plugins: [plugin],
+      });
+
+      try {
+        await watcher.watch();
+        expect(watcher.graph.files().toSorted()).toEqual(
+          [testFile, testAliasedFile]
+            .map((file) => path.resolve(file.name!))
+            .toSorted()
+        );
+      } finally {
+        watcher.close();
+      }
+    });
+  });
+});
+
 describe("watch()", () => {
   it("does nothing after the first call", async () => {
     const testFile = await getTestFile(EXPORT_TRUE_TEXT);
@@ -123,6 +1011,53 @@ describe("rescan()", () => {
   });
 });
 
+describe("rescanFiles()", () => {
+  it("watches new imports and unwatches orphaned ones", async () => {
+    const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+    const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+    const testFilePath = path.resolve(testFile.name!);
+    const testDepFilePath = path.resolve(testDepFile.name!);
+
+    const watcher = new DependencyWatcher([testFilePath], {
+      implicitInputs: [],
+    });
+
+    try {
+      expect(await watcher.watch()).toEqual([testFilePath]);
+
+      await testFile.write(
+        importDepText(`./${path.basename(testDepFile.name!)}`)
+      );
+      expect(await watcher.rescanFiles([testFilePath])).toEqual([
+        testFilePath,
+        testDepFilePath,
+      ]);
+      expect(watcher.backend.files()).toEqual([
+        testFilePath,
+        TSCONFIG_PATH,
+        testDepFilePath,
+      ]);
+
+      await testFile.write(EXPORT_TRUE_TEXT);
+      expect(await watcher.rescanFiles([testFilePath])).toEqual([testFilePath]);
+      expect(watcher.backend.files()).toEqual([testFilePath, TSCONFIG_PATH]);
+    } finally {
+      watcher.close();
+    }
+  });
+
+  it("errors when not watching", async () => {
+    const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+    const watcher = new DependencyWatcher([path.resolve(testFile.name!)]);
+
+    expect(watcher.rescanFiles([])).rejects.toEqual(
+      new Error(
+        "cannot rescan files of a DependencyWatcher that isn't watching"
+      )
+    );
+  });
+});
+
 describe("close()", () => {
   it("does nothing after the first call", async () => {
     const paths = [TEST_FILE_PATH];
@@ -1,15 +1,34 @@
-import type { TSConfig, Glob, BunFile } from "bun";
-import type { WatchEventType, FSWatcher } from "node:fs";
+import type { TSConfig, Glob, BunPlugin, BuildConfig } from "bun";
 
 import EventEmitter from "node:events";
-import { watch } from "node:fs";
+import { existsSync, statSync } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
 import path from "node:path";
 
-import findImports from "./find-imports";
+import findImports, { scanImports } from "./find-imports";
+import ImportGraph from "./import-graph";
+import ScanPlugins from "./scan-plugins";
+import { CONFIG_FILENAMES, TSConfigCache } from "./tsconfig";
+import {
+  DirectoryWatchBackend,
+  FileWatchBackend,
+  PollingWatchBackend,
+  type WatchBackend,
+  type WatchListeners,
+} from "./watch-backend";
 
 const USES_WIN32_SEP = path.sep === path.win32.sep;
+const globCharRegex = /[*?[\]{}!]/;
+/** matches package names like `react` and `@types/bun`, but not paths */
+const packageNameRegex = /^(?:@[\w.-]+\/)?[\w-][\w.-]*$/;
 const CURRENT_DIR = process.cwd();
 
+/**
+ * how long to wait after a file disappears before deciding it was deleted,
+ * since editors saving atomically briefly remove the original file
+ */
+const RENAME_DELAY = 50;
+
 function resolveGlob(...paths: [string, ...string[]]) {
   const pathGlob = paths.pop()!;
   let currentDir = path.resolve(...paths);
@@ -29,6 +48,10 @@ function resolveGlob(...paths: [string, ...string[]]) {
 export type ScanConfig = {
   findTSConfig(filePath: string): Promise<string | TSConfig | undefined>;
   excludeGlobs: readonly Glob[];
+  includeGlobs: readonly Glob[];
+  plugins: ScanPlugins;
+  tsconfigs: TSConfigCache;
+  reportError(error: ScanError): void;
 };
 
 export type ScanOptions = Readonly<{
@@ -41,44 +64,156 @@ export type ScanOptions = Readonly<{
 
   /** Don't watch these globs. Defaults to `[ "./node_modules/**" ]`. */
   exclude?: readonly string[];
+
+  /**
+   * Watch these globs or packages even if `exclude` matches them, e.g.
+   * `"@my-org/ui"` or `"./node_modules/@my-org/**"`. Imports are resolved to
+   * their real paths first, so symlinked packages like workspace packages and
+   * `bun link`ed packages are watched unless their real path is excluded.
+   * Defaults to `[]`.
+   */
+  include?: readonly string[];
+
+  /**
+   * Run the `onResolve` and `onLoad` hooks of these plugins when scanning for
+   * import paths. `BuildWatcher` uses the plugins of its `BuildConfig`.
+   */
+  plugins?: readonly BunPlugin[];
+
+  /**
+   * Use these loaders for the given extensions when scanning for import paths.
+   * `BuildWatcher` uses the loaders of its `BuildConfig`.
+   */
+  loader?: BuildConfig["loader"];
 }>;
 
-async function defaultFindTSConfigOnce(
-  filePath: string
-): Promise<BunFile | undefined> {
-  const tsConfig = Bun.file(path.resolve(filePath, "tsconfig.json"));
-  if (await tsConfig.exists()) return tsConfig;
+export type WatchMode = "files" | "directories" | "polling";
+
+export type DepWatchOptions = Readonly<{
+  /**
+   * Re-scan the imports of a file every time it changes. Defaults to `false`.
+   */
+  rescan?: boolean;
+
+  /**
+   * Scan files for imports. If `false`, only the entrypoints are watched until
+   * `setGraph` is called with the files to watch. Defaults to `true`.
+   */
+  scan?: boolean;
+
+  /**
+   * Re-scan every file when files matching these globs change, since they can
+   * change how imports resolve or what gets bundled without being imported.
+   * Defaults to `DEFAULT_IMPLICIT_INPUTS`, which includes `package.json`,
+   * `bun.lock`, `bunfig.toml` and `.env` files. Bun only loads `.env` files on
+   * startup, so `Bun.env` won't reflect changes to them.
+   */
+  implicitInputs?: readonly string[];
+
+  /**
+   * How to watch files. Defaults to `"files"`. Both `"files"` and
+   * `"directories"` fall back to `"polling"` when `fs.watch` fails, e.g. after
+   * running out of inotify watches.
+   *
+   * - `"files"` opens one `fs.watch` handle per file.
+   * - `"directories"` opens one `fs.watch` handle per directory containing
+   *   files, which avoids running out of inotify watches on large projects.
+   * - `"polling"` compares the `stat` of every file each `interval`, which
+   *   works on file systems where `fs.watch` misses events.
+   * - A function can return a custom `WatchBackend` instead.
+   */
+  mode?: WatchMode | ((listeners: WatchListeners) => WatchBackend);
+
+  /**
+   * How often to check files for changes in milliseconds when polling.
+   * Defaults to `100`.
+   */
+  interval?: number;
+}> &
+  ScanOptions;
 
-  const jsConfig = Bun.file(path.resolve(filePath, "jsconfig.json"));
-  if (await jsConfig.exists()) return jsConfig;
+function isNativeBackend(backend: WatchBackend): boolean {
+  return (
+    backend instanceof FileWatchBackend ||
+    backend instanceof DirectoryWatchBackend
+  );
 }
 
+/**
+ * finds the nearest `tsconfig.json` or `jsconfig.json` of `filePath`, merging
+ * every config it extends into it. Watchers use a `TSConfigCache` instead.
+ */
 export async function defaultFindTSConfig(
   filePath: string
 ): Promise<string | TSConfig | undefined> {
-  let dirPath = path.resolve(filePath, "..");
-
-  // trying to walk up at the root returns the same path
-  while (dirPath !== path.resolve(dirPath, "..")) {
-    const config = await defaultFindTSConfigOnce(dirPath);
-    if (config) return await config.text();
-
-    dirPath = path.resolve(dirPath, "..");
-  }
-
-  return undefined;
+  return await new TSConfigCache().findTSConfig(filePath);
 }
 
+export const DEFAULT_IMPLICIT_INPUTS: string[] = [
+  // these change how imports resolve or what gets bundled without being
+  // imported themselves
+  "./package.json",
+  "./bun.lock",
+  "./bun.lockb",
+  "./bunfig.toml",
+  "./.env",
+  "./.env.*",
+];
+
 export const DEFAULT_EXCLUDE: string[] = [
   // typically, node_modules doesn't change much when watching builds
   "./node_modules/**",
 ];
 
+export type FileChangeKind = "change" | "add" | "unlink" | "rename";
+
+export type FileChange = Readonly<{
+  /** what happened to the file */
+  kind: FileChangeKind;
+
+  /** the absolute path of the watched file */
+  path: string;
+
+  /** the absolute path the file was renamed to, if `kind` is `"rename"` */
+  newPath?: string;
+
+  /** when the change was noticed, in milliseconds since the epoch */
+  timestamp: number;
+}>;
+
+export type ScanError = Readonly<{
+  /** the absolute path of the file that couldn't be scanned */
+  file: string;
+
+  /** the import that couldn't be resolved, or `undefined` if the file failed */
+  specifier: string | undefined;
+
+  /** why scanning failed, e.g. the message of a parse error */
+  reason: string;
+}>;
+
 export interface DepWatchEvents
   extends Record<string, unknown[]>,
     Record<symbol, never> {
   watch: [paths: string[]];
-  change: [event: WatchEventType, filename: string | null];
+  /** emitted for every kind of change, before `add`, `unlink` and `rename` */
+  change: [change: FileChange];
+  add: [filePath: string];
+  unlink: [filePath: string];
+  rename: [oldPath: string, newPath: string];
+  cycle: [cycle: string[]];
+  /**
+   * emitted for every import that couldn't be resolved and every file that
+   * couldn't be parsed. Scanning continues with the rest, and the file gets
+   * scanned again on its next change.
+   */
+  "scan-error": [error: ScanError];
+  /**
+   * emitted when handling a file system event fails, e.g. when a file
+   * disappears while re-scanning, or when a backend fails and can't fall back
+   * to polling. Watching continues with the next event.
+   */
+  "watch-error": [error: unknown];
   close: [];
 }
 
@@ -117,15 +252,51 @@ export default class DependencyWatcher<
 > extends EventEmitter2<Events> {
   readonly fullPaths: string[];
   readonly scanConfig: ScanConfig;
-  watchers: FSWatcher[] = [];
+  /** the import graph found by the last scan */
+  graph: ImportGraph;
+  readonly rescanOnChange: boolean;
+  readonly scanEnabled: boolean;
+  /** globs of the implicit inputs, relative to the current directory */
+  readonly implicitInputGlobs: readonly Glob[];
+  readonly interval: number;
+  backend: WatchBackend;
   state: "ready" | "watching" | "closed" = "ready";
+  /** a `Bun.hash` of the contents of every watched file */
+  readonly hashes = new Map<string, number | bigint>();
+
+  /** the directories implicit inputs may be created in */
+  #implicitInputDirs: ReadonlySet<string>;
+  /** the directories scanned files are in that a new config would apply to */
+  #configlessDirs: ReadonlySet<string> = new Set();
+  /** the inode of every watched file, used to find where it was renamed to */
+  #inodes = new Map<string, number>();
+  /** files that disappeared and may come back soon from an atomic save */
+  #pendingRenames = new Set<string>();
+  /** created files being scanned, which directories may report several times */
+  #pendingCreates = new Set<string>();
+  /**
+   * the `tsconfig.json` files read while scanning and the implicit inputs,
+   * which can change how every file is resolved or bundled
+   */
+  #rescanPaths = new Set<string>();
+  /** files whose last scan failed, which get scanned again when they change */
+  #scanErrorPaths = new Set<string>();
+  #listeners: WatchListeners;
 
   constructor(
     fullPaths: Iterable<string>,
     {
-      findTSConfig = defaultFindTSConfig,
+      findTSConfig,
       exclude = DEFAULT_EXCLUDE,
-    }: ScanOptions = {}
+      include = [],
+      plugins = [],
+      loader,
+      rescan = false,
+      scan = true,
+      implicitInputs = DEFAULT_IMPLICIT_INPUTS,
+      mode = "files",
+      interval = 100,
+    }: DepWatchOptions = {}
   ) {
     super();
     const excludeGlobs = exclude
@@ -133,13 +304,451 @@ export default class DependencyWatcher<
       .map((filePath) => resolveGlob(CURRENT_DIR, filePath))
       .map((glob) => new Bun.Glob(glob))
       .toArray();
+    const includeGlobs = include
+      .values()
+      .map((pattern) =>
+        packageNameRegex.test(pattern) ?
+          `**/node_modules/${pattern}/**`
+        : pattern
+      )
+      .map((filePath) => resolveGlob(CURRENT_DIR, filePath))
+      .map((glob) => new Bun.Glob(glob))
+      .toArray();
 
     this.fullPaths = [...fullPaths];
-    this.scanConfig = { findTSConfig, excludeGlobs };
+    this.rescanOnChange = rescan;
+    this.scanEnabled = scan;
+    const implicitInputPatterns = implicitInputs.map((pattern) =>
+      path.posix.normalize(pattern)
+    );
+    this.implicitInputGlobs = implicitInputPatterns.map(
+      (pattern) => new Bun.Glob(pattern)
+    );
+    this.#implicitInputDirs = new Set(
+      implicitInputPatterns
+        .map((pattern) => path.posix.dirname(pattern))
+        .filter((dirPattern) => !globCharRegex.test(dirPattern))
+        .map((dirPattern) => path.resolve(CURRENT_DIR, dirPattern))
+    );
+    const reportError = (error: ScanError) => {
+      this.#scanErrorPaths.add(error.file);
+      this.emit("scan-error", error);
+    };
+    const tsconfigs = new TSConfigCache(reportError);
+    this.scanConfig = {
+      findTSConfig:
+        findTSConfig ?? ((filePath) => tsconfigs.findTSConfig(filePath)),
+      tsconfigs,
+      excludeGlobs,
+      includeGlobs,
+      reportError,
+      plugins: new ScanPlugins({
+        entrypoints: this.fullPaths,
+        plugins: [...plugins],
+        loader,
+      }),
+    };
+    this.graph = new ImportGraph(this.fullPaths);
+
+    this.interval = interval;
+    this.#listeners = {
+      file: (event, filePath) => {
+        const handled =
+          event === "rename" ?
+            this.#emitFileRenames(filePath, Date.now())
+          : this.#emitFileChanges(filePath, Date.now());
+        handled.catch((err) => this.emit("watch-error", err));
+      },
+      dir: (filePath) => {
+        this.#emitCreatedImports(filePath, Date.now()).catch((err) =>
+          this.emit("watch-error", err)
+        );
+      },
+      error: (err) => {
+        // backends report errors from their own events, where nothing
+        // catches them
+        try {
+          this.#fallBackToPolling(err);
+        } catch (fallbackErr) {
+          this.emit("watch-error", fallbackErr);
+        }
+      },
+    };
+    this.backend =
+      typeof mode === "function" ? mode(this.#listeners)
+      : mode === "directories" ? new DirectoryWatchBackend(this.#listeners)
+      : mode === "polling" ? new PollingWatchBackend(this.#listeners, interval)
+      : new FileWatchBackend(this.#listeners);
+  }
+
+  /**
+   * replaces a native backend that failed with a polling one that watches the
+   * same files, rethrowing `err` if that isn't possible
+   */
+  #fallBackToPolling(err: unknown): void {
+    if (
+      !isNativeBackend(this.backend) ||
+      (err as NodeJS.ErrnoException).code === "ENOENT"
+    ) {
+      throw err;
+    }
+
+    const filePaths = this.backend.files();
+    const dirPaths = this.backend.dirs();
+    this.backend.clear();
+
+    this.backend = new PollingWatchBackend(this.#listeners, this.interval);
+    for (const filePath of filePaths) this.backend.watchFile(filePath);
+    for (const dirPath of dirPaths) this.backend.watchDir(dirPath);
+  }
+
+  /** calls `watch` with the backend, falling back to polling if it fails */
+  #useBackend(watch: (backend: WatchBackend) => void): void {
+    try {
+      watch(this.backend);
+    } catch (err) {
+      this.#fallBackToPolling(err);
+      watch(this.backend);
+    }
   }
 
-  #emitFileChanges(event: WatchEventType, filename: string | null) {
-    this.emit("change", event, filename);
+  // `state` can change while awaiting, which TypeScript's narrowing ignores
+  #isClosed(): boolean {
+    return this.state === "closed";
+  }
+
+  #watchFile(filePath: string): void {
+    const { ino } = statSync(filePath);
+    this.#useBackend((backend) => backend.watchFile(filePath));
+    this.#inodes.set(filePath, ino);
+  }
+
+  #unwatchFile(filePath: string): void {
+    this.backend.unwatchFile(filePath);
+    this.#inodes.delete(filePath);
+    this.hashes.delete(filePath);
+  }
+
+  /** hashes the contents of `filePath`, or returns `undefined` if it's gone */
+  async #hashFile(filePath: string): Promise<number | bigint | undefined> {
+    try {
+      return Bun.hash(await Bun.file(filePath).bytes());
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  async #hashFiles(filePaths: Iterable<string>): Promise<void> {
+    await Promise.all(
+      Iterator.from(filePaths).map(async (filePath) => {
+        const hash = await this.#hashFile(filePath);
+        if (hash !== undefined && this.#isWatching(filePath)) {
+          this.hashes.set(filePath, hash);
+        }
+      })
+    );
+  }
+
+  #isWatching(filePath: string): boolean {
+    return this.#inodes.has(filePath);
+  }
+
+  #emitChange(change: FileChange): void {
+    this.emit("change", change);
+    switch (change.kind) {
+      case "add":
+        this.emit("add", change.path);
+        break;
+      case "unlink":
+        this.emit("unlink", change.path);
+        break;
+      case "rename":
+        this.emit("rename", change.path, change.newPath!);
+        break;
+    }
+  }
+
+  async #emitFileChanges(filePath: string, timestamp: number) {
+    // touching a file or saving it without edits doesn't change anything
+    const hash = await this.#hashFile(filePath);
+    if (hash !== undefined) {
+      if (hash === this.hashes.get(filePath)) return;
+      this.hashes.set(filePath, hash);
+    }
+
+    if (this.#rescanPaths.has(filePath)) {
+      await this.#rescanAll();
+    } else if (this.rescanOnChange || this.#scanErrorPaths.has(filePath)) {
+      await this.rescanFiles([filePath]);
+    }
+    this.#emitChange({ kind: "change", path: filePath, timestamp });
+  }
+
+  /** finds the file in the same directory as `filePath` with the same inode */
+  async #findRenamedFile(
+    filePath: string,
+    inode: number | undefined
+  ): Promise<string | undefined> {
+    const dirPath = path.dirname(filePath);
+    if (inode === undefined || !existsSync(dirPath)) return undefined;
+
+    for (const filename of await readdir(dirPath)) {
+      const siblingPath = path.join(dirPath, filename);
+      const siblingStats = await stat(siblingPath).catch(() => undefined);
+      if (siblingStats?.ino === inode) return siblingPath;
+    }
+  }
+
+  /**
+   * handles `filePath` being replaced by an atomic save, renamed or deleted,
+   * which leaves its watcher watching an inode that isn't there anymore
+   */
+  async #emitFileRenames(filePath: string, timestamp: number) {
+    const inode = this.#inodes.get(filePath);
+    const hash = this.hashes.get(filePath);
+    this.#unwatchFile(filePath);
+
+    this.#pendingRenames.add(filePath);
+    await Bun.sleep(RENAME_DELAY);
+    this.#pendingRenames.delete(filePath);
+    if (this.state !== "watching" || this.#isWatching(filePath)) return;
+
+    if (existsSync(filePath)) {
+      this.#watchFile(filePath);
+      // the "change" event of the same save may have hashed the new contents
+      // already, which the old hash mustn't replace
+      if (hash !== undefined && !this.hashes.has(filePath)) {
+        this.hashes.set(filePath, hash);
+      }
+      await this.#emitFileChanges(filePath, timestamp);
+      return;
+    }
+
+    if (this.#rescanPaths.has(filePath)) {
+      await this.#rescanAll();
+      this.#emitChange({ kind: "unlink", path: filePath, timestamp });
+      return;
+    }
+
+    const newPath = await this.#findRenamedFile(filePath, inode);
+    if (this.state !== "watching") return;
+
+    // importers of the missing file now have an unresolved import, which
+    // watches for the file to come back
+    await this.rescanFiles([...this.graph.importersOf(filePath), filePath]);
+    if (newPath !== undefined) {
+      this.#emitChange({ kind: "rename", path: filePath, newPath, timestamp });
+    } else {
+      this.#emitChange({ kind: "unlink", path: filePath, timestamp });
+    }
+  }
+
+  /** returns the files in the graph that don't exist, like deleted entrypoints */
+  #missingFiles(): string[] {
+    return this.graph.files().filter((filePath) => !this.#isWatching(filePath));
+  }
+
+  /**
+   * watches the directories unresolved imports, missing files and new configs
+   * would be created in
+   */
+  #watchUnresolvedDirs(): void {
+    const dirPaths = new Set(
+      [...this.graph.unresolvedImports().keys(), ...this.#missingFiles()].map(
+        (unresolvedPath) => path.dirname(unresolvedPath)
+      )
+    )
+      .union(this.#implicitInputDirs)
+      .union(this.#configlessDirs);
+
+    for (const dirPath of this.backend.dirs()) {
+      if (!dirPaths.has(dirPath)) this.backend.unwatchDir(dirPath);
+    }
+
+    const watchedDirPaths = new Set(this.backend.dirs());
+    for (const dirPath of dirPaths) {
+      if (watchedDirPaths.has(dirPath) || !existsSync(dirPath)) continue;
+      this.#useBackend((backend) => backend.watchDir(dirPath));
+    }
+  }
+
+  /**
+   * watches every file in the graph that exists and unwatches every file that
+   * isn't in it anymore, emitting `watch` if anything changed since the graph
+   * had `previousPaths` or every file was re-scanned
+   */
+  async #updateWatchers(
+    previousPaths: readonly string[],
+    rescannedAll = false
+  ): Promise<string[]> {
+    const unwatchedPaths = this.#inodes
+      .keys()
+      .filter(
+        (filePath) =>
+          !this.graph.has(filePath) && !this.#rescanPaths.has(filePath)
+      )
+      .toArray();
+    for (const filePath of unwatchedPaths) this.#unwatchFile(filePath);
+    // deleted and renamed files were unwatched before they left the graph
+    const removedPaths = previousPaths.filter(
+      (filePath) => !this.graph.has(filePath)
+    );
+
+    const paths = this.graph.files();
+    const addedPaths = paths.filter(
+      (filePath) => !this.#isWatching(filePath) && existsSync(filePath)
+    );
+    for (const filePath of addedPaths) this.#watchFile(filePath);
+    this.#watchUnresolvedDirs();
+    await this.#hashFiles(addedPaths);
+    await this.#watchRescanPaths();
+
+    if (rescannedAll || removedPaths.length > 0 || addedPaths.length > 0) {
+      this.emit("watch", paths);
+    }
+    return paths;
+  }
+
+  /** returns whether `filePath` is a config that applies to scanned files */
+  #isNewConfig(filePath: string): boolean {
+    return (
+      (CONFIG_FILENAMES as readonly string[]).includes(
+        path.basename(filePath)
+      ) && this.#configlessDirs.has(path.dirname(filePath))
+    );
+  }
+
+  /** returns whether `filePath` matches an implicit input glob */
+  #isImplicitInput(filePath: string): boolean {
+    const relativePath = path
+      .relative(CURRENT_DIR, filePath)
+      .replaceAll(path.sep, path.posix.sep);
+    return this.implicitInputGlobs.some((glob) => glob.match(relativePath));
+  }
+
+  /**
+   * watches the implicit inputs and the config files read by scans since the
+   * last call, and the directories a new config could be created in
+   */
+  async #watchRescanPaths(): Promise<void> {
+    const configPaths = await this.scanConfig.tsconfigs.configPaths();
+    const configlessDirs = await this.scanConfig.tsconfigs.configlessDirs();
+    if (this.state !== "watching") return;
+
+    this.#configlessDirs = new Set(configlessDirs);
+    this.#watchUnresolvedDirs();
+
+    const implicitInputPaths = this.implicitInputGlobs.flatMap((glob) => [
+      ...glob.scanSync({ cwd: CURRENT_DIR, dot: true, absolute: true }),
+    ]);
+    const rescanPaths = new Set(
+      [...configPaths, ...implicitInputPaths].filter((rescanPath) =>
+        existsSync(rescanPath)
+      )
+    );
+
+    // configs no file uses anymore stop being watched, unless imported
+    for (const rescanPath of this.#rescanPaths.difference(rescanPaths)) {
+      this.#rescanPaths.delete(rescanPath);
+      if (!this.graph.has(rescanPath)) this.#unwatchFile(rescanPath);
+    }
+
+    const addedPaths = [...rescanPaths.difference(this.#rescanPaths)];
+    for (const rescanPath of addedPaths) {
+      this.#rescanPaths.add(rescanPath);
+      if (!this.#isWatching(rescanPath)) this.#watchFile(rescanPath);
+    }
+    await this.#hashFiles(addedPaths);
+  }
+
+  /**
+   * forgets every cached config and re-scans every file, keeping the watchers
+   * of files that are still imported so their changes aren't missed meanwhile
+   */
+  async #rescanAll(): Promise<void> {
+    this.scanConfig.tsconfigs.clear();
+    this.#scanErrorPaths.clear();
+
+    const previousPaths = this.graph.files();
+    if (!(await this.#scanGraph())) return;
+    await this.#updateWatchers(previousPaths, true);
+  }
+
+  /**
+   * replaces the import graph with a new scan of every entrypoint, returning
+   * whether the watcher is still watching
+   */
+  async #scanGraph(): Promise<boolean> {
+    const graph =
+      this.scanEnabled ?
+        await findImports(this.fullPaths, this.scanConfig)
+      : new ImportGraph(this.fullPaths);
+    // the watcher may have been closed while scanning
+    if (this.state !== "watching") return false;
+
+    this.graph = graph;
+    for (const cycle of this.graph.findCycles()) this.emit("cycle", cycle);
+    return true;
+  }
+
+  #closeWatchers(): void {
+    this.backend.clear();
+    this.#rescanPaths.clear();
+    this.#scanErrorPaths.clear();
+    this.#inodes.clear();
+    this.hashes.clear();
+  }
+
+  /**
+   * re-scans the files importing `filePath` if it resolves their imports, or
+   * the file itself if it went missing earlier
+   */
+  async #emitCreatedImports(filePath: string, timestamp: number) {
+    if (this.#pendingCreates.has(filePath)) return;
+    this.#pendingCreates.add(filePath);
+    try {
+      await this.#rescanCreatedImports(filePath, timestamp);
+    } finally {
+      this.#pendingCreates.delete(filePath);
+    }
+  }
+
+  async #rescanCreatedImports(filePath: string, timestamp: number) {
+    if (
+      (this.#isImplicitInput(filePath) || this.#isNewConfig(filePath)) &&
+      !this.#rescanPaths.has(filePath) &&
+      existsSync(filePath) &&
+      this.state === "watching"
+    ) {
+      await this.#rescanAll();
+      this.#emitChange({ kind: "add", path: filePath, timestamp });
+      return;
+    }
+
+    const importerPaths = this.graph
+      .unresolvedImports()
+      .entries()
+      .filter(
+        ([unresolvedPath]) =>
+          filePath === unresolvedPath ||
+          filePath.startsWith(`${unresolvedPath}.`)
+      )
+      .flatMap(([, importerPaths]) => importerPaths)
+      .toArray();
+    if (
+      this.#missingFiles().includes(filePath) &&
+      !this.#pendingRenames.has(filePath)
+    ) {
+      importerPaths.push(filePath);
+    }
+
+    if (importerPaths.length === 0) return;
+    if (!(await Bun.file(filePath).exists())) return;
+    if (this.state !== "watching" || this.#isWatching(filePath)) return;
+
+    await this.rescanFiles(importerPaths);
+    this.#emitChange({ kind: "add", path: filePath, timestamp });
   }
 
   /** starts watching files, doing nothing if already watching */
@@ -153,28 +762,71 @@ export default class DependencyWatcher<
     if (this.state === "closed")
       throw new Error("cannot watch a closed DependencyWatcher");
 
-    for (const watcher of this.watchers) watcher.close();
+    this.#closeWatchers();
 
+    const isFirstWatch = this.state === "ready";
     this.state = "watching";
-    const emitFileChanges = this.#emitFileChanges.bind(this);
-    const paths = await findImports(this.fullPaths, this.scanConfig);
-    this.watchers = Iterator.from(paths)
-      .map((filePath) => watch(filePath, emitFileChanges))
-      .toArray();
-    this.once("close", () => {
-      for (const watcher of this.watchers) watcher.close();
-    });
+    if (!(await this.#scanGraph())) return [];
+
+    const paths = this.graph.files();
+    // entrypoints must exist at first, but deleted ones stay in the graph
+    // until they come back
+    const existingPaths =
+      isFirstWatch ? paths : paths.filter((filePath) => existsSync(filePath));
+    for (const filePath of existingPaths) this.#watchFile(filePath);
+    this.#watchUnresolvedDirs();
+    await this.#hashFiles(existingPaths);
+    await this.#watchRescanPaths();
+
+    this.emit("watch", paths);
+    return paths;
+  }
+
+  /**
+   * re-scans only the imports of `filePaths`, watching files that became
+   * reachable and unwatching files no entrypoint imports anymore
+   */
+  async rescanFiles(filePaths: Iterable<string>): Promise<string[]> {
+    if (this.state !== "watching")
+      throw new Error(
+        "cannot rescan files of a DependencyWatcher that isn't watching"
+      );
+
+    const previousPaths = this.graph.files();
+    if (this.scanEnabled) {
+      const scannedPaths = Iterator.from(filePaths)
+        .filter((filePath) => this.graph.has(filePath))
+        .toArray();
+      for (const filePath of scannedPaths)
+        this.#scanErrorPaths.delete(filePath);
+      await scanImports(this.graph, scannedPaths, this.scanConfig);
+      if (this.#isClosed()) return [];
+    }
+
+    this.graph.prune();
+    return await this.#updateWatchers(previousPaths);
+  }
+
+  /**
+   * replaces the import graph, e.g. with the inputs `Bun.build` reported,
+   * watching files that became reachable and unwatching the rest
+   */
+  async setGraph(graph: ImportGraph): Promise<string[]> {
+    if (this.state !== "watching")
+      throw new Error(
+        "cannot set the graph of a DependencyWatcher that isn't watching"
+      );
 
-    const pathsArray = [...paths];
-    this.emit("watch", pathsArray);
-    return pathsArray;
+    const previousPaths = this.graph.files();
+    this.graph = graph;
+    return await this.#updateWatchers(previousPaths);
   }
 
   /** stops watching files */
   close(): void {
     if (this.state === "closed") return;
 
-    for (const watcher of this.watchers) watcher.close();
+    this.#closeWatchers();
 
     this.state = "closed";
     this.emit("close");
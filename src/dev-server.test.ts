@@ -0,0 +1,195 @@
+import type { BuildOutput } from "bun";
+
+import { describe, it, expect, afterAll } from "bun:test";
+import { getTestFile, cleanAllFiles } from "../test/test-file-gen";
+import path from "node:path";
+
+import DevServer, { DEV_SERVER_PATH, formatBuildErrors } from "./dev-server";
+import BuildWatcher from ".";
+
+const HTML_TEXT = "<html><body><p>hi</p></body></html>\n";
+
+afterAll(async () => {
+  await cleanAllFiles();
+});
+
+const getDevServer = async () => {
+  const entrypoint = await getTestFile("export default true;\n");
+  const watcher = new BuildWatcher(
+    { entrypoints: [entrypoint.name!], outdir: "./test/files" },
+    { quiet: true }
+  );
+  const devServer = new DevServer(watcher, {
+    port: 0,
+    hostname: "127.0.0.1",
+  });
+  devServer.start();
+  return { watcher, devServer };
+};
+
+const brokenFile = await getTestFile("let a = ;\n");
+const [ERROR_LOG] = (
+  await Bun.build({ entrypoints: [brokenFile.name!], throw: false })
+).logs;
+
+const buildOutput = (success: boolean, logs: BuildOutput["logs"] = []) => ({
+  success,
+  outputs: [],
+  logs,
+});
+
+const connect = async (devServer: DevServer) => {
+  const socketURL = new URL(DEV_SERVER_PATH, devServer.url);
+  socketURL.protocol = "ws:";
+  const socket = new WebSocket(socketURL);
+  const messages: unknown[] = [];
+  socket.addEventListener("message", (event) => {
+    messages.push(JSON.parse(event.data as string));
+  });
+  await new Promise((resolve) =>
+    socket.addEventListener("open", resolve, { once: true })
+  );
+  return { socket, messages };
+};
+
+const change = (filePath: string) => ({
+  kind: "change" as const,
+  path: path.resolve(filePath),
+  timestamp: Date.now(),
+});
+
+describe("fetch", () => {
+  it("serves outdir with the client script injected into pages", async () => {
+    const page = await getTestFile(HTML_TEXT, ".html");
+    const { devServer } = await getDevServer();
+
+    try {
+      const pageURL = new URL(path.basename(page.name!), devServer.url);
+      const response = await fetch(pageURL);
+      expect(response.headers.get("Content-Type")).toStartWith("text/html");
+      expect(await response.text()).toBe(
+        `<html><body><p>hi</p><script src="${DEV_SERVER_PATH}/client.js"></script></body></html>\n`
+      );
+
+      const client = await fetch(
+        new URL(`${DEV_SERVER_PATH}/client.js`, devServer.url)
+      );
+      expect(client.status).toBe(200);
+
+      const missing = await fetch(
+        new URL("/%2e%2e/package.json", devServer.url)
+      );
+      expect(missing.status).toBe(404);
+
+      const malformed = await fetch(new URL("/%E0%A4%A", devServer.url));
+      expect(malformed.status).toBe(400);
+    } finally {
+      devServer.stop();
+    }
+  });
+});
+
+describe("WebSocket", () => {
+  it("reloads pages after successful builds and swaps stylesheets", async () => {
+    const { watcher, devServer } = await getDevServer();
+    const { socket, messages } = await connect(devServer);
+
+    try {
+      watcher.emit(
+        "build",
+        buildOutput(false),
+        [change("./a.ts")],
+        1,
+        "default"
+      );
+      watcher.emit(
+        "build",
+        buildOutput(true),
+        [change("./a.css")],
+        2,
+        "default"
+      );
+      watcher.emit(
+        "build",
+        buildOutput(true),
+        [change("./a.ts")],
+        3,
+        "default"
+      );
+      await Bun.sleep(50);
+
+      expect(messages).toEqual([
+        { type: "error", errors: [] },
+        { type: "css", paths: [path.resolve("./a.css")] },
+        { type: "reload" },
+      ]);
+    } finally {
+      socket.close();
+      devServer.stop();
+    }
+  });
+});
+
+describe("formatBuildErrors()", () => {
+  it("returns the location and code frame of every error", () => {
+    expect(
+      formatBuildErrors(
+        buildOutput(false, [
+          ERROR_LOG,
+          { level: "warning", message: "unused" } as BuildMessage,
+        ])
+      )
+    ).toEqual([
+      {
+        message: "Unexpected ;",
+        file: path.relative(process.cwd(), brokenFile.name!),
+        line: 1,
+        column: 9,
+        codeFrame: "1 | let a = ;\n  |         ^",
+      },
+    ]);
+  });
+});
+
+describe("error overlay", () => {
+  it("shows build errors until the next successful build", async () => {
+    const { watcher, devServer } = await getDevServer();
+    const first = await connect(devServer);
+    let second: Awaited<ReturnType<typeof connect>> | undefined;
+
+    try {
+      watcher.emit(
+        "build",
+        buildOutput(false, [ERROR_LOG]),
+        [change("./src/a.ts")],
+        1,
+        "default"
+      );
+      await Bun.sleep(50);
+      const errorMessage = {
+        type: "error",
+        errors: formatBuildErrors(buildOutput(false, [ERROR_LOG])),
+      };
+      expect(first.messages).toEqual([errorMessage]);
+
+      // pages opened while the build is broken show its errors too
+      second = await connect(devServer);
+      await Bun.sleep(50);
+      expect(second.messages).toEqual([errorMessage]);
+
+      watcher.emit(
+        "build",
+        buildOutput(true),
+        [change("./src/a.ts")],
+        2,
+        "default"
+      );
+      await Bun.sleep(50);
+      expect(first.messages).toEqual([errorMessage, { type: "reload" }]);
+    } finally {
+      first.socket.close();
+      second?.socket.close();
+      devServer.stop();
+    }
+  });
+});
@@ -0,0 +1,319 @@
+import type { BuildOutput, Server, ServerWebSocket } from "bun";
+
+import { stat } from "node:fs/promises";
+import path from "node:path";
+
+import type { FileChange } from "./dep-watcher";
+import type { MultiBuildWatcher } from ".";
+
+export type DevServerOptions = Readonly<{
+  /** Listen on this port, or a random one if `0`. Defaults to `3000`. */
+  port?: number;
+
+  /** Listen on this hostname. Defaults to `"localhost"`. */
+  hostname?: string;
+
+  /**
+   * Serve the files in this directory. Defaults to the `outdir` of the
+   * watcher's first target.
+   */
+  root?: string;
+}>;
+
+/** a build error shown in the overlay of every connected page */
+export type DevServerError = Readonly<{
+  message: string;
+  /** the path of the file the error is in, relative to the current directory */
+  file?: string;
+  /** the 1-based line of the error */
+  line?: number;
+  /** the 1-based column of the error */
+  column?: number;
+  /** the line of the error with a caret under its column */
+  codeFrame?: string;
+}>;
+
+/** the messages the server pushes to every connected page */
+export type DevServerMessage =
+  | { type: "reload" }
+  | { type: "css"; paths: string[] }
+  | { type: "error"; errors: DevServerError[] };
+
+/** where pages load the client script from and connect to the server */
+export const DEV_SERVER_PATH = "/__bun-build-watch";
+
+/** the pub/sub topic every page's socket subscribes to */
+const RELOAD_TOPIC = "reload";
+
+const bodyEndRegex = /<\/body\s*>/i;
+
+/** the id of the element showing build errors */
+const OVERLAY_ID = "__bun-build-watch-overlay";
+
+/**
+ * reloads the page when told to, or swaps stylesheets by adding a query to
+ * their URLs so the browser fetches them again. Build errors are shown in an
+ * overlay until it's dismissed or the next build succeeds.
+ */
+const CLIENT_SCRIPT = `(() => {
+  const url = new URL(${JSON.stringify(DEV_SERVER_PATH)}, location.href);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  const socket = new WebSocket(url);
+
+  const removeOverlay = () =>
+    document.getElementById(${JSON.stringify(OVERLAY_ID)})?.remove();
+  const showOverlay = (errors) => {
+    removeOverlay();
+    const overlay = document.createElement("div");
+    overlay.id = ${JSON.stringify(OVERLAY_ID)};
+    overlay.style.cssText =
+      "position:fixed;inset:0;z-index:2147483647;overflow:auto;padding:2em;" +
+      "background:rgba(0,0,0,0.85);color:#eee;font:14px/1.5 monospace";
+
+    const close = document.createElement("button");
+    close.textContent = "\u00d7";
+    close.title = "Dismiss (Esc)";
+    close.style.cssText =
+      "float:right;font-size:2em;background:none;border:none;" +
+      "color:inherit;cursor:pointer";
+    close.addEventListener("click", removeOverlay);
+    overlay.append(close);
+
+    for (const error of errors) {
+      const title = document.createElement("div");
+      title.style.cssText = "color:#ff5555;font-weight:bold;margin-top:1em";
+      title.textContent = error.message;
+      overlay.append(title);
+
+      if (error.file !== undefined) {
+        const location = document.createElement("div");
+        location.style.color = "#aaa";
+        location.textContent =
+          error.file + ":" + error.line + ":" + error.column;
+        overlay.append(location);
+      }
+      if (error.codeFrame !== undefined) {
+        const codeFrame = document.createElement("pre");
+        codeFrame.style.cssText = "margin:0.5em 0;padding:1em;background:#222";
+        codeFrame.textContent = error.codeFrame;
+        overlay.append(codeFrame);
+      }
+    }
+    document.body.append(overlay);
+  };
+
+  document.addEventListener("keydown", (event) => {
+    if (event.key === "Escape") removeOverlay();
+  });
+  socket.addEventListener("message", (event) => {
+    const message = JSON.parse(event.data);
+    if (message.type === "error") {
+      showOverlay(message.errors);
+    } else if (message.type === "css") {
+      removeOverlay();
+      for (const link of document.querySelectorAll('link[rel="stylesheet"]')) {
+        const href = new URL(link.href);
+        href.searchParams.set("t", Date.now());
+        link.href = href.href;
+      }
+    } else if (message.type === "reload") {
+      location.reload();
+    }
+  });
+})();
+`;
+
+/** returns the errors of a failed build, with a code frame if they have one */
+export function formatBuildErrors(buildOutput: BuildOutput): DevServerError[] {
+  return buildOutput.logs
+    .filter((log) => log.level === "error")
+    .map((log): DevServerError => {
+      const { position } = log;
+      if (!position) return { message: log.message };
+
+      const lineNumber = String(position.line);
+      const gutter = " ".repeat(lineNumber.length);
+      const codeFrame =
+        `${lineNumber} | ${position.lineText}\n` +
+        `${gutter} | ${" ".repeat(position.column - 1)}^`;
+      return {
+        message: log.message,
+        file: path.relative(process.cwd(), position.file),
+        line: position.line,
+        column: position.column,
+        codeFrame,
+      };
+    });
+}
+
+/** returns whether every change is to a stylesheet, which can be swapped */
+function isCSSOnly(changes: readonly FileChange[]): boolean {
+  return (
+    changes.length > 0 &&
+    changes.every(
+      ({ kind, path: filePath }) =>
+        kind === "change" && path.extname(filePath) === ".css"
+    )
+  );
+}
+
+/** adds the client script to the end of an HTML page */
+function injectClient(html: string): string {
+  const scriptTag = `<script src="${DEV_SERVER_PATH}/client.js"></script>`;
+  return bodyEndRegex.test(html) ?
+      html.replace(bodyEndRegex, (bodyEnd) => `${scriptTag}${bodyEnd}`)
+    : `${html}${scriptTag}`;
+}
+
+/**
+ * serves the outputs of a `MultiBuildWatcher` with `Bun.serve`, reloading
+ * every page after each successful build, or swapping its stylesheets if only
+ * stylesheets changed. Pages show the errors of failed builds in an overlay.
+ */
+export default class DevServer {
+  readonly watcher: MultiBuildWatcher;
+  readonly root: string;
+  readonly port: number;
+  readonly hostname: string;
+  /** the running server, if started */
+  server: Server | undefined;
+
+  /** the errors of every target whose last build failed */
+  #errors = new Map<string, DevServerError[]>();
+
+  constructor(
+    watcher: MultiBuildWatcher,
+    { port = 3000, hostname = "localhost", root }: DevServerOptions = {}
+  ) {
+    const outdir = root ?? Object.values(watcher.targets)[0]?.outdir;
+    if (outdir === undefined) {
+      throw new TypeError("DevServer needs a root or a target with an outdir");
+    }
+
+    this.watcher = watcher;
+    this.root = path.resolve(outdir);
+    this.port = port;
+    this.hostname = hostname;
+  }
+
+  readonly #onBuild = (
+    buildOutput: BuildOutput,
+    changes: FileChange[],
+    buildId: number,
+    target: string
+  ) => {
+    if (buildOutput.success) {
+      this.#errors.delete(target);
+      this.send(
+        isCSSOnly(changes) ?
+          { type: "css", paths: changes.map((change) => change.path) }
+        : { type: "reload" }
+      );
+    } else {
+      this.#errors.set(target, formatBuildErrors(buildOutput));
+    }
+
+    // pages keep showing the errors of other targets that still fail
+    const errors = this.#errorMessage();
+    if (errors) this.send(errors);
+  };
+
+  /** returns the message showing every current error, if there are any */
+  #errorMessage(): DevServerMessage | undefined {
+    if (this.#errors.size === 0) return undefined;
+    return { type: "error", errors: [...this.#errors.values()].flat() };
+  }
+
+  /** the URL the server listens on */
+  get url(): URL {
+    if (this.server === undefined) {
+      throw new Error("cannot get the URL of a DevServer that isn't running");
+    }
+    return this.server.url;
+  }
+
+  /**
+   * returns the file the decoded `pathname` refers to, or `undefined` if it's
+   * missing
+   */
+  async #findFile(pathname: string): Promise<string | undefined> {
+    const filePath = path.join(this.root, pathname);
+    // `path.join` normalizes `..`, but it can't climb above the root
+    if (path.relative(this.root, filePath).startsWith("..")) return undefined;
+
+    const stats = await stat(filePath).catch(() => undefined);
+    if (stats?.isDirectory()) {
+      return await this.#findFile(`${pathname}/index.html`);
+    }
+    return stats?.isFile() ? filePath : undefined;
+  }
+
+  async #fetch(
+    request: Request,
+    server: Server
+  ): Promise<Response | undefined> {
+    const { pathname } = new URL(request.url);
+    if (pathname === DEV_SERVER_PATH) {
+      if (server.upgrade(request)) return undefined;
+      return new Response("expected a WebSocket", { status: 400 });
+    }
+    if (pathname === `${DEV_SERVER_PATH}/client.js`) {
+      return new Response(CLIENT_SCRIPT, {
+        headers: { "Content-Type": "text/javascript;charset=utf-8" },
+      });
+    }
+
+    let decodedPathname: string;
+    try {
+      decodedPathname = decodeURIComponent(pathname);
+    } catch {
+      return new Response("Bad Request", { status: 400 });
+    }
+    const filePath = await this.#findFile(decodedPathname);
+    if (filePath === undefined) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    const file = Bun.file(filePath);
+    if (path.extname(filePath) === ".html") {
+      return new Response(injectClient(await file.text()), {
+        headers: { "Content-Type": "text/html;charset=utf-8" },
+      });
+    }
+    return new Response(file);
+  }
+
+  /** starts serving, doing nothing if already started */
+  start(): Server {
+    if (this.server !== undefined) return this.server;
+
+    this.server = Bun.serve({
+      port: this.port,
+      hostname: this.hostname,
+      fetch: (request, server) => this.#fetch(request, server),
+      websocket: {
+        open: (socket: ServerWebSocket<unknown>) => {
+          socket.subscribe(RELOAD_TOPIC);
+          // pages opened or reloaded after a build failed show its errors
+          const errors = this.#errorMessage();
+          if (errors) socket.send(JSON.stringify(errors));
+        },
+        message() {},
+      },
+    });
+    this.watcher.on("build", this.#onBuild);
+    return this.server;
+  }
+
+  /** sends `message` to every connected page */
+  send(message: DevServerMessage): void {
+    this.server?.publish(RELOAD_TOPIC, JSON.stringify(message));
+  }
+
+  /** stops serving and closes every connection */
+  stop(): void {
+    this.watcher.off("build", this.#onBuild);
+    this.server?.stop(true);
+    this.server = undefined;
+  }
+}
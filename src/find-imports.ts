@@ -1,141 +1,487 @@
-import type { TSConfig, BunFile, Import } from "bun";
+import type { TSConfig, Import, JavaScriptLoader, Loader } from "bun";
 import type { ScanConfig } from "./dep-watcher";
+import type { LoadedModule } from "./scan-plugins";
+import { realpath } from "node:fs/promises";
 import path from "node:path";
 
-export type ScanOptions = Readonly<{
+import ImportGraph from "./import-graph";
+import { resolveTSConfigPaths } from "./tsconfig";
+
+/** the loaders `Bun.build` uses by default, keyed by extension */
+const DEFAULT_LOADERS: Readonly<Record<string, Loader>> = {
+  ".js": "js",
+  ".mjs": "js",
+  ".cjs": "js",
+  ".jsx": "jsx",
+  ".ts": "ts",
+  ".mts": "ts",
+  ".cts": "ts",
+  ".tsx": "tsx",
+  ".css": "css",
+  ".json": "json",
+  ".jsonc": "json",
+  ".toml": "toml",
+  ".txt": "text",
+  ".wasm": "wasm",
+  ".node": "napi",
+  ".html": "html",
+};
+
+const JS_LOADERS: ReadonlySet<Loader> = new Set(["js", "jsx", "ts", "tsx"]);
+
+/**
+ * matches the URL of `@import "a.css"`, `@import url(a.css)` and `url(a.png)`
+ * in a stylesheet, with or without quotes
+ */
+const cssImportRegex =
+  /@import\s+(?:url\(\s*)?(["']?)([^"')\s;]+)\1|url\(\s*(["']?)([^"')\s]+)\3/g;
+
+// strings are matched first so `/*` inside them doesn't start a comment
+const cssCommentRegex =
+  /("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*')|\/\*[\s\S]*?\*\//g;
+
+/**
+ * matches the tags of an HTML page whose assets `Bun.build` bundles. Links to
+ * other pages aren't bundled.
+ */
+const htmlTagRegex = /<(script|link|img|source|video|audio)\b[^>]*>/gi;
+
+/** matches the `src`, `href` and `rel` attributes of an HTML tag */
+const htmlAttributeRegex =
+  /\s(src|href|rel)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+const htmlCommentRegex = /<!--[\s\S]*?-->/g;
+
+/** matches URLs that point outside the file system, e.g. `https:` or `data:` */
+const externalURLRegex = /^(?:[a-z][a-z\d+.-]*:|\/\/|#)/i;
+
+type ScannedImports = {
+  /** absolute paths of every imported file that exists */
+  imports: Set<string>;
+
   /**
-   * Use this `tsconfig.json` for the given file when scanning for import paths.
-   * If omitted, it will walk up the file system, looking for the nearest
-   * `tsconfig.json` for each file.
+   * absolute paths that relative imports would resolve to if they existed,
+   * e.g. `/dir/new-util` for `import "./new-util"`
    */
-  findTSConfig?(filePath: string): Promise<string | TSConfig | undefined>;
+  unresolved: Set<string>;
+};
+
+class PathsMap extends Map<string, ScannedImports> {}
+
+function isPathSpecifier(importPath: string): boolean {
+  return importPath.startsWith(".") || path.isAbsolute(importPath);
+}
+
+function isJavaScriptLoader(loader: Loader): loader is JavaScriptLoader {
+  return JS_LOADERS.has(loader);
+}
+
+/** returns whether files using `loader` can import other files */
+function isScannable(loader: Loader): boolean {
+  return isJavaScriptLoader(loader) || loader === "css" || loader === "html";
+}
+
+/** returns the loader `Bun.build` would use for `filePath` */
+function loaderOf(filePath: string, { plugins }: ScanConfig): Loader {
+  const ext = path.extname(filePath);
+  const loaders = plugins.config.loader ?? {};
+  return (
+    Object.hasOwn(loaders, ext) ? loaders[ext]
+    : Object.hasOwn(DEFAULT_LOADERS, ext) ? DEFAULT_LOADERS[ext]
+    : "file"
+  );
+}
+
+/** reads `filePath`, returning `undefined` if it doesn't exist */
+async function readModule(
+  filePath: string,
+  loader: Loader
+): Promise<LoadedModule | undefined> {
+  try {
+    return { contents: await Bun.file(filePath).bytes(), loader };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+}
 
-  /** Don't watch these globs. Defaults to `[ "./node_modules/**" ]`. */
-  exclude?: readonly string[];
+/**
+ * scans a JavaScript-like file for imports, reporting a scan error and
+ * returning `undefined` if it couldn't be parsed
+ */
+function scanJSImports(
+  filePath: string,
+  parentBytes: Uint8Array,
+  loader: JavaScriptLoader,
+  tsconfig: TSConfig | undefined,
+  { tsconfigs, reportError }: ScanConfig
+): Import[] | undefined {
+  try {
+    return tsconfigs.transpiler(tsconfig, loader).scanImports(parentBytes);
+  } catch (err) {
+    if (err instanceof BuildMessage && err.level === "error") {
+      // something went wrong when parsing this file, return undefined
+      reportError({
+        file: filePath,
+        specifier: undefined,
+        reason: err.message,
+      });
+      return undefined;
+    } else {
+      throw err;
+    }
+  }
+}
+
+/**
+ * turns the URLs of a stylesheet or page into imports of local files, which
+ * browsers treat as relative like `a.png`
+ */
+function urlImports(imports: IteratorObject<Import>): Import[] {
+  return imports
+    .filter(({ path: url }) => !externalURLRegex.test(url))
+    .map(({ path: url, kind }) => {
+      const urlPath = url.replace(/[?#].*$/, "");
+      return {
+        path: isPathSpecifier(urlPath) ? urlPath : `./${urlPath}`,
+        kind,
+      };
+    })
+    .toArray();
+}
+
+/** scans a stylesheet for `@import` and `url()` imports */
+function scanCSSImports(parentBytes: Uint8Array): Import[] {
+  const text = new TextDecoder()
+    .decode(parentBytes)
+    .replace(cssCommentRegex, (_, str: string | undefined) => str ?? "");
+  return urlImports(
+    text
+      .matchAll(cssImportRegex)
+      .map(
+        (match): Import =>
+          match[2] !== undefined ?
+            { path: match[2], kind: "import-rule" }
+          : { path: match[4], kind: "url-token" }
+      )
+  );
+}
+
+/**
+ * scans an HTML page for the scripts, stylesheets and media it references,
+ * with the import kinds `Bun.build` reports for them
+ */
+function scanHTMLImports(parentBytes: Uint8Array): Import[] {
+  const text = new TextDecoder()
+    .decode(parentBytes)
+    .replace(htmlCommentRegex, "");
+  return urlImports(
+    text.matchAll(htmlTagRegex).flatMap(([tag, tagName]): Import[] => {
+      const attributes = new Map(
+        tag
+          .matchAll(htmlAttributeRegex)
+          .map(([, name, ...values]) => [
+            name.toLowerCase(),
+            values.find((value) => value !== undefined)!,
+          ])
+      );
+      const url = attributes.get("src") ?? attributes.get("href");
+      if (!url) return [];
+
+      const name = tagName.toLowerCase();
+      const kind =
+        name === "script" ? "import-statement"
+        : name === "link" && attributes.get("rel") === "stylesheet" ?
+          "import-rule"
+        : "url-token";
+      return [{ path: url, kind }];
+    })
+  );
+}
+
+/**
+ * scans a module for imports, returning `undefined` if it couldn't be parsed.
+ * Other assets like JSON, TOML, text and wasm files don't import anything.
+ */
+function scanModule(
+  filePath: string,
+  { contents, loader }: LoadedModule,
+  tsconfig: TSConfig | undefined,
+  scanConfig: ScanConfig
+): Import[] | undefined {
+  if (isJavaScriptLoader(loader)) {
+    return scanJSImports(filePath, contents, loader, tsconfig, scanConfig);
+  } else if (loader === "css") {
+    return scanCSSImports(contents);
+  } else if (loader === "html") {
+    return scanHTMLImports(contents);
+  } else {
+    return [];
+  }
+}
+
+function errorReason(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** returns whether `filePath` matches `exclude` but not `include` */
+function isExcluded(
+  filePath: string,
+  { excludeGlobs, includeGlobs }: ScanConfig
+): boolean {
+  return (
+    excludeGlobs.some((glob) => glob.match(filePath)) &&
+    !includeGlobs.some((glob) => glob.match(filePath))
+  );
+}
+
+/** the state of scanning one file, shared with the virtual modules it imports */
+type FileScan = Readonly<{
+  /** the absolute path of the scanned file */
+  filePath: string;
+  scanned: ScannedImports;
+  visitedModules: Set<string>;
+  /** the tsconfig of the scanned file */
+  tsconfig: TSConfig | undefined;
 }>;
 
-async function defaultFindTSConfigOnce(
-  filePath: string
-): Promise<BunFile | undefined> {
-  const tsConfig = Bun.file(path.resolve(filePath, "tsconfig.json"));
-  if (await tsConfig.exists()) return tsConfig;
+/**
+ * finds the tsconfig of `filePath` and merges the configs it extends into it.
+ * Configs returned as text or objects are relative to the current directory.
+ */
+async function findResolvedTSConfig(
+  filePath: string,
+  { findTSConfig, tsconfigs }: ScanConfig
+): Promise<TSConfig | undefined> {
+  const tsconfig = await findTSConfig(filePath);
+  if (tsconfig === undefined) return undefined;
+  return await tsconfigs.resolveTSConfig(tsconfig, process.cwd());
+}
+
+/**
+ * resolves an import without plugins, applying the `paths` and `baseUrl` of
+ * `tsconfig` before looking in `node_modules`
+ */
+function resolveFileImport(
+  importPath: string,
+  importerPath: string,
+  tsconfig: TSConfig | undefined
+): string {
+  const aliasPaths =
+    isPathSpecifier(importPath) || tsconfig === undefined ?
+      []
+    : resolveTSConfigPaths(importPath, tsconfig);
+  for (const aliasPath of aliasPaths) {
+    try {
+      return Bun.resolveSync(aliasPath, path.dirname(importerPath));
+    } catch {
+      // try the next path, like TypeScript does
+    }
+  }
+
+  // import.meta.resolve seems to take node_modules into account
+  // and Bun.resolveSync resolves the URL to a file path
+  try {
+    return Bun.resolveSync(
+      import.meta.resolve(importPath, importerPath),
+      importerPath
+    );
+  } catch (err) {
+    // the file may be created later, so remember where it would be
+    if (aliasPaths.length > 0) return aliasPaths[0];
+    if (!isPathSpecifier(importPath)) throw err;
+    return path.resolve(importerPath, "..", importPath);
+  }
+}
 
-  const jsConfig = Bun.file(path.resolve(filePath, "jsconfig.json"));
-  if (await jsConfig.exists()) return jsConfig;
+/**
+ * resolves an import of `importerPath` into the scanned imports. Imports of
+ * virtual modules aren't files, so the files they import are added instead.
+ * Imports that can't be resolved, like a misspelled package or a file that
+ * doesn't exist yet, are reported as scan errors of the scanned file.
+ */
+async function resolveImport(
+  childImport: Import,
+  importerPath: string,
+  namespace: string,
+  fileScan: FileScan,
+  scanConfig: ScanConfig
+): Promise<void> {
+  try {
+    await resolveImportOnce(
+      childImport,
+      importerPath,
+      namespace,
+      fileScan,
+      scanConfig
+    );
+  } catch (err) {
+    scanConfig.reportError({
+      file: fileScan.filePath,
+      specifier: childImport.path,
+      reason: errorReason(err),
+    });
+  }
 }
 
-export async function defaultFindTSConfig(
-  filePath: string
-): Promise<string | TSConfig | undefined> {
-  let dirPath = path.resolve(filePath, "..");
+async function resolveImportOnce(
+  { path: importPath, kind }: Import,
+  importerPath: string,
+  namespace: string,
+  fileScan: FileScan,
+  scanConfig: ScanConfig
+): Promise<void> {
+  const { scanned, visitedModules, tsconfig } = fileScan;
+  const { plugins } = scanConfig;
+
+  const result = await plugins.resolve(
+    importPath,
+    importerPath,
+    namespace,
+    kind
+  );
+  if (result?.external) return;
 
-  // trying to walk up at the root returns the same path
-  while (dirPath !== path.resolve(dirPath, "..")) {
-    const config = await defaultFindTSConfigOnce(dirPath);
-    if (config) return await config.text();
+  if (result?.namespace !== undefined && result.namespace !== "file") {
+    const moduleId = `${result.namespace}:${result.path}`;
+    if (visitedModules.has(moduleId)) return;
+    visitedModules.add(moduleId);
 
-    dirPath = path.resolve(dirPath, "..");
+    const loaded = await plugins.load(
+      result.path,
+      result.namespace,
+      loaderOf(result.path, scanConfig)
+    );
+    if (loaded === undefined) return;
+    const imports = scanModule(fileScan.filePath, loaded, tsconfig, scanConfig);
+    await Promise.all(
+      (imports ?? []).map((childImport) =>
+        resolveImport(
+          childImport,
+          result.path,
+          result.namespace!,
+          fileScan,
+          scanConfig
+        )
+      )
+    );
+    return;
   }
 
-  return undefined;
+  const resolvedImportPath =
+    result?.path ?? resolveFileImport(importPath, importerPath, tsconfig);
+
+  // symlinked packages are watched where they really are, which is usually
+  // outside of `node_modules`
+  const realImportPath =
+    (await Bun.file(resolvedImportPath).exists()) ?
+      await realpath(resolvedImportPath).catch(() => undefined)
+    : undefined;
+
+  if (realImportPath === undefined) {
+    if (!isExcluded(resolvedImportPath, scanConfig)) {
+      scanned.unresolved.add(resolvedImportPath);
+    }
+    throw new Error(
+      `Cannot find module "${importPath}" from "${importerPath}"`
+    );
+  } else if (!isExcluded(realImportPath, scanConfig)) {
+    scanned.imports.add(realImportPath);
+  }
 }
 
-export const DEFAULT_EXCLUDE: string[] = [
-  // typically, node_modules doesn't change much when watching builds
-  "./node_modules/**",
-];
+/**
+ * scans `filePath` for imports, returning `undefined` if it doesn't exist or
+ * couldn't be parsed
+ */
+async function scanFile(
+  filePath: string,
+  scanConfig: ScanConfig
+): Promise<ScannedImports | undefined> {
+  // plugins may load files with any loader, but reading a file no plugin
+  // loads is only worth it if it can import anything
+  const loader = loaderOf(filePath, scanConfig);
+  const loaded =
+    (await scanConfig.plugins.load(filePath, "file", loader)) ??
+    (isScannable(loader) ? await readModule(filePath, loader) : undefined);
+  if (loaded === undefined) return undefined;
 
-const extRegex = /\.(js|jsx|ts|tsx)$/;
+  const tsconfig =
+    isJavaScriptLoader(loaded.loader) ?
+      await findResolvedTSConfig(filePath, scanConfig)
+    : undefined;
+  const imports = scanModule(filePath, loaded, tsconfig, scanConfig);
+  if (imports === undefined) return undefined;
 
-class PathsMap extends Map<string, Set<string>> {}
+  const fileScan: FileScan = {
+    filePath,
+    scanned: { imports: new Set(), unresolved: new Set() },
+    visitedModules: new Set(),
+    tsconfig,
+  };
+  await Promise.all(
+    imports.map((childImport) =>
+      resolveImport(childImport, filePath, "file", fileScan, scanConfig)
+    )
+  );
+  return fileScan.scanned;
+}
 
 async function findImportsOnce(
   filePaths: Set<string>,
-  { findTSConfig, excludeGlobs }: ScanConfig
+  scanConfig: ScanConfig
 ): Promise<PathsMap> {
-  type ExtCapture = "js" | "jsx" | "ts" | "tsx";
-
   const childFiles = await Promise.all(
     filePaths
       .values()
-      .map(async (parentPath): Promise<[string, Set<string>] | undefined> => {
-        const match = parentPath.match(extRegex);
-        if (match === null) return undefined;
-        const loader = match[0] as ExtCapture;
-
-        const parentFile = Bun.file(parentPath);
-        const parentExists = await parentFile.exists();
-        if (!parentExists) return undefined;
-
-        const transpiler = new Bun.Transpiler({
-          tsconfig: await findTSConfig(parentPath),
-          loader,
-        });
-
-        let imports: Import[];
-        try {
-          imports = transpiler.scanImports(await parentFile.bytes());
-        } catch (err) {
-          if (err instanceof BuildMessage && err.level === "error") {
-            // something went wrong when parsing this file, return undefined
-            console.error(err);
+      .map(
+        async (parentPath): Promise<[string, ScannedImports] | undefined> => {
+          try {
+            const scanned = await scanFile(parentPath, scanConfig);
+            return scanned && [parentPath, scanned];
+          } catch (err) {
+            // a failing plugin or unreadable file shouldn't stop the others
+            scanConfig.reportError({
+              file: parentPath,
+              specifier: undefined,
+              reason: errorReason(err),
+            });
             return undefined;
-          } else {
-            throw err;
           }
         }
-
-        const resolvedImports = await Promise.all(
-          imports
-            .values()
-            .map(async ({ path: importPath }): Promise<string | undefined> => {
-              // import.meta.resolve seems to take node_modules into account
-              // and Bun.resolveSync resolves the URL to a file path
-              let resolvedImportPath: string;
-              resolvedImportPath = Bun.resolveSync(
-                import.meta.resolve(importPath, parentPath),
-                parentPath
-              );
-
-              const resolvedFile = Bun.file(resolvedImportPath);
-
-              if (
-                excludeGlobs.every((glob) => !glob.match(resolvedImportPath)) &&
-                (await resolvedFile.exists())
-              ) {
-                return resolvedImportPath;
-              }
-            })
-        );
-
-        return [
-          parentPath,
-          new Set<string>(resolvedImports.filter((str) => str !== undefined)),
-        ];
-      })
+      )
   );
 
   return new PathsMap(childFiles.filter((value) => value !== undefined));
 }
 
-function mergePaths(allPaths: PathsMap, foundPaths: PathsMap) {
-  for (const [parentPath, childPaths] of foundPaths) {
-    const allChildPaths = allPaths.get(parentPath);
-    if (!allChildPaths) {
-      allPaths.set(parentPath, childPaths);
-      continue;
-    }
+/**
+ * re-scans the files specified by `paths` for import paths, then recursively
+ * scans every file `graph` hasn't seen yet
+ */
+export async function scanImports(
+  graph: ImportGraph,
+  paths: Iterable<string>,
+  scanConfig: ScanConfig
+): Promise<void> {
+  let foundPaths = new Set(paths);
+  while (foundPaths.size > 0) {
+    const scannedPaths = await findImportsOnce(foundPaths, scanConfig);
 
-    // If the same link `parent -> child` is found twice, there is a cyclic
-    // import.
-    if (!allChildPaths.isDisjointFrom(childPaths)) {
-      throw new TypeError(
-        `Cyclic import detected: ${parentPath}\n\t-> ${[
-          ...allChildPaths.intersection(childPaths),
-        ].join("\n\t-> ")}`
-      );
+    // only scan files that haven't been seen yet, which also keeps cyclic
+    // imports from being scanned forever
+    const newPaths = new Set(
+      scannedPaths
+        .values()
+        .flatMap(({ imports }) => imports)
+        .filter((childPath) => !graph.has(childPath))
+    );
+
+    for (const parentPath of foundPaths) {
+      const scanned = scannedPaths.get(parentPath);
+      graph.setImports(parentPath, scanned?.imports ?? [], scanned?.unresolved);
     }
-    allPaths.set(parentPath, allChildPaths.union(childPaths));
+    foundPaths = newPaths;
   }
 }
 
@@ -143,17 +489,65 @@ function mergePaths(allPaths: PathsMap, foundPaths: PathsMap) {
 export default async function findImports(
   paths: Iterable<string>,
   scanConfig: ScanConfig
-): Promise<Set<string>> {
-  const allPaths = new PathsMap();
-  let foundPaths = new PathsMap().set("", new Set(paths));
-  while (foundPaths.size > 0) {
-    mergePaths(allPaths, foundPaths);
+): Promise<ImportGraph> {
+  const graph = new ImportGraph(paths);
+  await scanImports(graph, graph.entrypoints, scanConfig);
+  return graph;
+}
 
-    foundPaths = await findImportsOnce(
-      new Set(foundPaths.values().flatMap((value) => value)),
-      scanConfig
-    );
+/** the parts of `BuildOutput.metafile` that list the files Bun bundled */
+export type Metafile = Readonly<{
+  /** every bundled module, keyed by its path relative to the current directory */
+  inputs: Readonly<
+    Record<
+      string,
+      Readonly<{
+        imports: readonly Readonly<{ path: string; external?: boolean }>[];
+      }>
+    >
+  >;
+}>;
+
+/**
+ * matches the `namespace:` prefix of modules plugins load from outside the
+ * file system, without matching Windows drive letters
+ */
+const namespaceRegex = /^[^/\\:]{2,}:/;
+
+/**
+ * creates the import graph of the files `Bun.build` reported bundling in its
+ * metafile. Modules of other namespaces aren't files, so the files they import
+ * become imports of their importers instead.
+ */
+export function importsFromMetafile(
+  paths: Iterable<string>,
+  { inputs }: Metafile,
+  scanConfig: ScanConfig
+): ImportGraph {
+  const graph = new ImportGraph(paths);
+
+  const fileImportsOf = (
+    inputPath: string,
+    visited: Set<string> = new Set()
+  ): string[] =>
+    (inputs[inputPath]?.imports ?? [])
+      .filter(({ path: importPath, external }) => {
+        if (external || visited.has(importPath)) return false;
+        visited.add(importPath);
+        return true;
+      })
+      .flatMap(({ path: importPath }) =>
+        namespaceRegex.test(importPath) ?
+          fileImportsOf(importPath, visited)
+        : [path.resolve(importPath)]
+      )
+      .filter((filePath) => !isExcluded(filePath, scanConfig));
+
+  for (const inputPath of Object.keys(inputs)) {
+    if (namespaceRegex.test(inputPath)) continue;
+    graph.setImports(path.resolve(inputPath), fileImportsOf(inputPath));
   }
 
-  return new Set(allPaths.values().flatMap((value) => value));
+  graph.prune();
+  return graph;
 }
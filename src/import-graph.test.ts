@@ -0,0 +1,84 @@
+import { describe, it, expect } from "bun:test";
+
+import ImportGraph from "./import-graph";
+
+// a -> b -> c -> b, a -> d, e -> d
+function getTestGraph(): ImportGraph {
+  const graph = new ImportGraph(["/a.ts", "/e.ts"]);
+  graph.setImports("/a.ts", ["/b.ts", "/d.ts"]);
+  graph.setImports("/b.ts", ["/c.ts"]);
+  graph.setImports("/c.ts", ["/b.ts"]);
+  graph.setImports("/e.ts", ["/d.ts"]);
+  return graph;
+}
+
+describe("files()", () => {
+  it("lists entrypoints first", () => {
+    const graph = getTestGraph();
+    expect(graph.files()).toEqual([
+      "/a.ts",
+      "/e.ts",
+      "/b.ts",
+      "/d.ts",
+      "/c.ts",
+    ]);
+  });
+});
+
+describe("setImports()", () => {
+  it("removes old edges", () => {
+    const graph = getTestGraph();
+    graph.setImports("/a.ts", ["/d.ts"]);
+    expect(graph.importsOf("/a.ts")).toEqual(["/d.ts"]);
+    expect(graph.importersOf("/b.ts")).toEqual(["/c.ts"]);
+  });
+});
+
+describe("importsOf()", () => {
+  it("works", () => {
+    const graph = getTestGraph();
+    expect(graph.importsOf("/a.ts")).toEqual(["/b.ts", "/d.ts"]);
+    expect(graph.importsOf("/d.ts")).toEqual([]);
+    expect(graph.importsOf("/not-in-graph.ts")).toEqual([]);
+  });
+});
+
+describe("importersOf()", () => {
+  it("works", () => {
+    const graph = getTestGraph();
+    expect(graph.importersOf("/d.ts")).toEqual(["/a.ts", "/e.ts"]);
+    expect(graph.importersOf("/b.ts")).toEqual(["/a.ts", "/c.ts"]);
+    expect(graph.importersOf("/a.ts")).toEqual([]);
+  });
+});
+
+describe("entrypointsOf()", () => {
+  it("works", () => {
+    const graph = getTestGraph();
+    expect(graph.entrypointsOf("/c.ts")).toEqual(["/a.ts"]);
+    expect(graph.entrypointsOf("/d.ts")).toEqual(["/a.ts", "/e.ts"]);
+    expect(graph.entrypointsOf("/e.ts")).toEqual(["/e.ts"]);
+    expect(graph.entrypointsOf("/not-in-graph.ts")).toEqual([]);
+  });
+});
+
+describe("importChainOf()", () => {
+  it("returns the shortest chain", () => {
+    const graph = getTestGraph();
+    expect(graph.importChainOf("/c.ts")).toEqual(["/a.ts", "/b.ts", "/c.ts"]);
+    expect(graph.importChainOf("/d.ts")).toEqual(["/a.ts", "/d.ts"]);
+    expect(graph.importChainOf("/a.ts")).toEqual(["/a.ts"]);
+  });
+
+  it("returns undefined for unreachable files", () => {
+    const graph = getTestGraph();
+    expect(graph.importChainOf("/not-in-graph.ts")).toBeUndefined();
+  });
+});
+
+describe("findCycles()", () => {
+  it("works", () => {
+    const graph = getTestGraph();
+    expect(graph.findCycles()).toEqual([["/b.ts", "/c.ts", "/b.ts"]]);
+  });
+});
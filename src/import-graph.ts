@@ -0,0 +1,197 @@
+/**
+ * A directed graph of `parent -> child` import edges between absolute file
+ * paths, rooted at a set of entrypoints.
+ */
+export default class ImportGraph {
+  readonly entrypoints: ReadonlySet<string>;
+  readonly #imports = new Map<string, Set<string>>();
+  readonly #importers = new Map<string, Set<string>>();
+  readonly #unresolved = new Map<string, Set<string>>();
+
+  constructor(entrypoints: Iterable<string>) {
+    this.entrypoints = new Set(entrypoints);
+    for (const entrypoint of this.entrypoints) this.#addFile(entrypoint);
+  }
+
+  #addFile(filePath: string): void {
+    if (this.#imports.has(filePath)) return;
+    this.#imports.set(filePath, new Set());
+    this.#importers.set(filePath, new Set());
+  }
+
+  #deleteFile(filePath: string): void {
+    for (const childPath of this.#imports.get(filePath)!) {
+      this.#importers.get(childPath)?.delete(filePath);
+    }
+    for (const parentPath of this.#importers.get(filePath)!) {
+      this.#imports.get(parentPath)?.delete(filePath);
+    }
+    this.#imports.delete(filePath);
+    this.#importers.delete(filePath);
+    this.#unresolved.delete(filePath);
+  }
+
+  /**
+   * replaces every import edge going out of `parentPath`, along with the paths
+   * of the imports it couldn't resolve
+   */
+  setImports(
+    parentPath: string,
+    childPaths: Iterable<string>,
+    unresolvedPaths: Iterable<string> = []
+  ): void {
+    this.#addFile(parentPath);
+    this.#unresolved.set(parentPath, new Set(unresolvedPaths));
+    for (const oldChildPath of this.#imports.get(parentPath)!) {
+      this.#importers.get(oldChildPath)!.delete(parentPath);
+    }
+
+    const newChildPaths = new Set(childPaths);
+    this.#imports.set(parentPath, newChildPaths);
+    for (const childPath of newChildPaths) {
+      this.#addFile(childPath);
+      this.#importers.get(childPath)!.add(parentPath);
+    }
+  }
+
+  /**
+   * removes every file that no entrypoint imports anymore, returning the
+   * removed files
+   */
+  prune(): string[] {
+    const reachable = new Set(this.entrypoints);
+    for (const parentPath of reachable) {
+      for (const childPath of this.#imports.get(parentPath)!) {
+        reachable.add(childPath);
+      }
+    }
+
+    const removedPaths = this.files().filter(
+      (filePath) => !reachable.has(filePath)
+    );
+    for (const filePath of removedPaths) this.#deleteFile(filePath);
+    return removedPaths;
+  }
+
+  /** returns whether `filePath` is an entrypoint or is imported by any file */
+  has(filePath: string): boolean {
+    return this.#imports.has(filePath);
+  }
+
+  /** returns every file in the graph, entrypoints first */
+  files(): string[] {
+    return [...this.#imports.keys()];
+  }
+
+  /** returns the files `filePath` imports */
+  importsOf(filePath: string): string[] {
+    return [...(this.#imports.get(filePath) ?? [])];
+  }
+
+  /** returns the files that import `filePath` */
+  importersOf(filePath: string): string[] {
+    return [...(this.#importers.get(filePath) ?? [])];
+  }
+
+  /**
+   * returns the paths of imports that didn't resolve to a file, mapped to the
+   * files that import them
+   */
+  unresolvedImports(): Map<string, string[]> {
+    const unresolvedImports = new Map<string, string[]>();
+    for (const [parentPath, unresolvedPaths] of this.#unresolved) {
+      for (const unresolvedPath of unresolvedPaths) {
+        const importerPaths = unresolvedImports.get(unresolvedPath);
+        if (importerPaths) {
+          importerPaths.push(parentPath);
+        } else {
+          unresolvedImports.set(unresolvedPath, [parentPath]);
+        }
+      }
+    }
+    return unresolvedImports;
+  }
+
+  /** returns the entrypoints that import `filePath`, directly or not */
+  entrypointsOf(filePath: string): string[] {
+    if (!this.has(filePath)) return [];
+
+    const visited = new Set([filePath]);
+    for (const visitedPath of visited) {
+      for (const importerPath of this.#importers.get(visitedPath)!) {
+        visited.add(importerPath);
+      }
+    }
+
+    return [...this.entrypoints].filter((entrypoint) =>
+      visited.has(entrypoint)
+    );
+  }
+
+  /**
+   * returns the shortest chain of imports from any entrypoint to `filePath`,
+   * e.g. `[entrypoint, dependency, filePath]`, or `undefined` if no entrypoint
+   * imports it
+   */
+  importChainOf(filePath: string): string[] | undefined {
+    const parents = new Map<string, string | undefined>(
+      this.entrypoints.values().map((entrypoint) => [entrypoint, undefined])
+    );
+
+    // `Map` iteration visits entries added during the loop, so this is a
+    // breadth-first search
+    for (const parentPath of parents.keys()) {
+      if (parentPath === filePath) {
+        const chain: string[] = [];
+        for (
+          let chainPath: string | undefined = filePath;
+          chainPath !== undefined;
+          chainPath = parents.get(chainPath)
+        ) {
+          chain.unshift(chainPath);
+        }
+        return chain;
+      }
+
+      for (const childPath of this.#imports.get(parentPath)!) {
+        if (!parents.has(childPath)) parents.set(childPath, parentPath);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * walks the graph depth-first from its entrypoints, returning the import
+   * chain of every back edge it finds, e.g. `[a, b, c, a]`
+   */
+  findCycles(): string[][] {
+    const cycles: string[][] = [];
+    const visited = new Set<string>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+
+    const visit = (parentPath: string) => {
+      visited.add(parentPath);
+      stack.push(parentPath);
+      onStack.add(parentPath);
+
+      for (const childPath of this.#imports.get(parentPath)!) {
+        if (onStack.has(childPath)) {
+          cycles.push([...stack.slice(stack.indexOf(childPath)), childPath]);
+        } else if (!visited.has(childPath)) {
+          visit(childPath);
+        }
+      }
+
+      stack.pop();
+      onStack.delete(parentPath);
+    };
+
+    for (const entrypoint of this.entrypoints) {
+      if (!visited.has(entrypoint)) visit(entrypoint);
+    }
+
+    return cycles;
+  }
+}
@@ -1,6 +1,14 @@
 import type { BuildConfig, BunFile } from "bun";
 
-import { describe, it, expect, beforeEach, spyOn, afterAll } from "bun:test";
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  spyOn,
+  afterAll,
+  afterEach,
+} from "bun:test";
 import { mockListeners } from "../test/mocks";
 import {
   getTestFile,
@@ -8,9 +16,10 @@ import {
   cleanAllFiles,
 } from "../test/test-file-gen";
 import { once } from "node:events";
+import { rename } from "node:fs/promises";
 import path from "node:path";
 
-import BuildWatcher from ".";
+import BuildWatcher, { MultiBuildWatcher, type BuildConcurrency } from ".";
 
 const EXPORT_TRUE_TEXT = "export default true;\n";
 const EXPORT_FALSE_TEXT = "export default false;\n";
@@ -18,9 +27,11 @@ const EXPORT_FALSE_TEXT = "export default false;\n";
 const importDepText = (dep: string) =>
   `import bool from "${dep}";\nexport default !bool;\n`;
 
-let mockedBuild = spyOn(Bun, "build").mockImplementation(async () => {
+const mockBuild = async () => {
   return Promise.resolve({ success: true, outputs: [], logs: [] });
-});
+};
+
+let mockedBuild = spyOn(Bun, "build").mockImplementation(mockBuild);
 
 const BUILD_WATCHER_EVENTS = ["watch", "build", "change", "close"] as const;
 
@@ -30,6 +41,7 @@ beforeEach(async () => {
 });
 
 afterAll(async () => {
+  mockedBuild.mockRestore();
   await cleanAllFiles();
 });
 
@@ -77,6 +89,33 @@ it("works", async () => {
   listeners.cleanup();
 });
 
+it("builds once for every atomic save", async () => {
+  const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+  const testFilePath = path.resolve(testFile.name!);
+  const buildConfig: BuildConfig = {
+    entrypoints: [testFilePath],
+  };
+
+  const watcher = new BuildWatcher(buildConfig, { quiet: true });
+  const listeners = mockListeners(watcher, BUILD_WATCHER_EVENTS);
+
+  try {
+    await watcher.watch();
+    await once(watcher, "build");
+
+    for (const text of [EXPORT_FALSE_TEXT, EXPORT_TRUE_TEXT]) {
+      const tempFile = await getTestFile(text);
+      await rename(tempFile.name!, testFilePath);
+      // wait for the watcher to decide the file wasn't deleted
+      await Bun.sleep(150);
+    }
+    expect(listeners.build).toBeCalledTimes(3);
+  } finally {
+    watcher.close();
+    listeners.cleanup();
+  }
+});
+
 it("throws when given an invalid entrypoint", async () => {
   const buildConfig: BuildConfig = {
     entrypoints: ["./!not!a!real!file!"],
@@ -144,6 +183,330 @@ describe("options", () => {
       console.log("test finished");
     });
   });
+
+  describe("debounce", () => {
+    it("builds once for every change in the window", async () => {
+      const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+      const buildConfig: BuildConfig = {
+        entrypoints: [testFile.name!],
+      };
+
+      const watcher = new BuildWatcher(buildConfig, {
+        quiet: true,
+        debounce: 50,
+      });
+
+      const listeners = mockListeners(watcher, BUILD_WATCHER_EVENTS);
+
+      try {
+        await watcher.watch();
+        await once(watcher, "build");
+        expect(listeners.build).toBeCalledTimes(1);
+
+        const build = once(watcher, "build");
+        await testFile.write(EXPORT_FALSE_TEXT);
+        await testFile.write(EXPORT_TRUE_TEXT);
+        await testFile.write(EXPORT_FALSE_TEXT);
+        const [, changes] = await build;
+        expect(listeners.build).toBeCalledTimes(2);
+        expect(changes).toHaveLength(listeners.callCounts().change);
+        expect(changes[0]).toMatchObject({
+          kind: "change",
+          path: path.resolve(testFile.name!),
+        });
+
+        await Bun.sleep(100);
+        expect(listeners.build).toBeCalledTimes(2);
+      } finally {
+        watcher.close();
+        listeners.cleanup();
+      }
+    });
+  });
+
+  describe("concurrency", () => {
+    const mockSlowBuild = (...durations: number[]) => {
+      const stats = { running: 0, maxRunning: 0 };
+      mockedBuild.mockImplementation(async () => {
+        stats.running++;
+        stats.maxRunning = Math.max(stats.running, stats.maxRunning);
+        await Bun.sleep(durations.shift() ?? 10);
+        stats.running--;
+        return { success: true, outputs: [], logs: [] };
+      });
+      return stats;
+    };
+
+    const watchBuilds = async (
+      concurrency: BuildConcurrency,
+      changeCount: number
+    ) => {
+      const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+      const buildConfig: BuildConfig = {
+        entrypoints: [testFile.name!],
+      };
+
+      const watcher = new BuildWatcher(buildConfig, {
+        quiet: true,
+        debounce: 0,
+        concurrency,
+      });
+
+      const builds: [changeCount: number, buildId: number][] = [];
+      watcher.on("build", (buildOutput, changes, buildId) => {
+        builds.push([changes.length, buildId]);
+      });
+
+      try {
+        await watcher.watch();
+        for (let i = 0; i < changeCount; i++) {
+          await Bun.sleep(5);
+          watcher.emit("change", {
+            kind: "change",
+            path: path.resolve(testFile.name!),
+            timestamp: Date.now(),
+          });
+        }
+        await Bun.sleep(100);
+      } finally {
+        watcher.close();
+      }
+
+      return builds;
+    };
+
+    afterEach(() => {
+      mockedBuild.mockImplementation(mockBuild);
+    });
+
+    it("queue runs every build in order", async () => {
+      const stats = mockSlowBuild(30, 30, 30);
+      const builds = await watchBuilds("queue", 2);
+      expect(builds).toEqual([
+        [0, 1],
+        [1, 2],
+        [1, 3],
+      ]);
+      expect(stats.maxRunning).toBe(1);
+    });
+
+    it("drop-stale merges changes made during a build", async () => {
+      const stats = mockSlowBuild(30, 30);
+      const builds = await watchBuilds("drop-stale", 2);
+      expect(builds).toEqual([
+        [0, 1],
+        [2, 2],
+      ]);
+      expect(stats.maxRunning).toBe(1);
+    });
+
+    it("latest-wins drops superseded builds", async () => {
+      mockSlowBuild(50, 10);
+      const builds = await watchBuilds("latest-wins", 1);
+      expect(builds).toEqual([[1, 2]]);
+    });
+
+    it("reports builds that throw as build-error", async () => {
+      const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+      const buildConfig: BuildConfig = {
+        entrypoints: [testFile.name!],
+      };
+
+      const error = new Error("build threw");
+      mockedBuild.mockImplementationOnce(() => Promise.reject(error));
+      const watcher = new BuildWatcher(buildConfig, { quiet: true });
+      const listeners = mockListeners(watcher, BUILD_WATCHER_EVENTS);
+
+      try {
+        const buildError = once(watcher, "build-error");
+        await watcher.watch();
+        expect(await buildError).toEqual([error, 1, "default"]);
+        expect(listeners.build).not.toBeCalled();
+      } finally {
+        watcher.close();
+        listeners.cleanup();
+      }
+    });
+
+    it.each(["queue", "drop-stale", "latest-wins"] as const)(
+      "%s keeps building after a build throws",
+      async (concurrency) => {
+        const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+        const buildConfig: BuildConfig = {
+          entrypoints: [testFile.name!],
+        };
+
+        const watcher = new BuildWatcher(buildConfig, {
+          quiet: true,
+          debounce: 0,
+          concurrency,
+        });
+
+        const error = new Error("broken listener");
+        let hasThrown = false;
+        watcher.on("build", () => {
+          if (hasThrown) return;
+          hasThrown = true;
+          throw error;
+        });
+
+        try {
+          const buildError = once(watcher, "build-error");
+          await watcher.watch();
+          expect(await buildError).toEqual([error, 1, undefined]);
+
+          const build = once(watcher, "build");
+          watcher.emit("change", {
+            kind: "change",
+            path: path.resolve(testFile.name!),
+            timestamp: Date.now(),
+          });
+          expect((await build)[2]).toBe(2);
+        } finally {
+          watcher.close();
+        }
+      }
+    );
+  });
+
+  describe('rebuild: "affected"', () => {
+    it("builds only the entrypoints importing a changed file", async () => {
+      const testFileA = await getTestFile(EXPORT_TRUE_TEXT);
+      const testFileB = await getTestFile(EXPORT_TRUE_TEXT);
+      const buildConfig: BuildConfig = {
+        entrypoints: [testFileA.name!, testFileB.name!],
+      };
+
+      const watcher = new BuildWatcher(buildConfig, {
+        quiet: true,
+        debounce: 0,
+        rebuild: "affected",
+      });
+
+      try {
+        await watcher.watch();
+        await once(watcher, "build");
+        expect(mockedBuild.mock.calls[0][0]).toMatchObject(buildConfig);
+
+        const build = once(watcher, "build");
+        watcher.emit("change", {
+          kind: "change",
+          path: path.resolve(testFileB.name!),
+          timestamp: Date.now(),
+        });
+        await build;
+        expect(mockedBuild.mock.calls[1][0]).toMatchObject({
+          entrypoints: [path.resolve(testFileB.name!)],
+          root: path.dirname(path.resolve(testFileB.name!)),
+        });
+      } finally {
+        watcher.close();
+      }
+    });
+  });
+
+  describe("onSuccess", () => {
+    it("restarts the command after successful builds only", async () => {
+      const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+      const buildConfig: BuildConfig = {
+        entrypoints: [testFile.name!],
+      };
+
+      const watcher = new BuildWatcher(buildConfig, {
+        quiet: true,
+        debounce: 0,
+        onSuccess: ["sleep", "10"],
+      });
+
+      const emitChange = () =>
+        watcher.emit("change", {
+          kind: "change",
+          path: path.resolve(testFile.name!),
+          timestamp: Date.now(),
+        });
+
+      try {
+        await watcher.watch();
+        await once(watcher, "build");
+        await Bun.sleep(50);
+        const first = watcher.runner!.subprocess!;
+        expect(first.exitCode).toBeNull();
+
+        mockedBuild.mockImplementationOnce(async () => ({
+          success: false,
+          outputs: [],
+          logs: [],
+        }));
+        let build = once(watcher, "build");
+        emitChange();
+        await build;
+        await Bun.sleep(50);
+        expect(watcher.runner!.subprocess).toBe(first);
+
+        build = once(watcher, "build");
+        emitChange();
+        await build;
+        await Bun.sleep(50);
+        expect(first.signalCode).toBe("SIGTERM");
+        expect(watcher.runner!.subprocess).not.toBe(first);
+      } finally {
+        watcher.close();
+        await watcher.runner!.stop();
+      }
+    });
+  });
+
+  describe('inputs: "metafile"', () => {
+    it("watches the inputs of the last build", async () => {
+      const testFile = await getTestFile(EXPORT_TRUE_TEXT);
+      const testDepFile = await getTestFile(EXPORT_TRUE_TEXT);
+      const buildConfig: BuildConfig = {
+        entrypoints: [testFile.name!],
+      };
+
+      mockedBuild.mockImplementationOnce(async () => {
+        const buildOutput = {
+          success: true,
+          outputs: [],
+          logs: [],
+          metafile: {
+            inputs: {
+              [path.relative(".", testFile.name!)]: {
+                imports: [
+                  { path: path.relative(".", testDepFile.name!) },
+                  { path: "not-a-file", external: true },
+                ],
+              },
+              [path.relative(".", testDepFile.name!)]: { imports: [] },
+            },
+          },
+        };
+        return buildOutput;
+      });
+
+      const watcher = new BuildWatcher(buildConfig, {
+        quiet: true,
+        inputs: "metafile",
+        implicitInputs: [],
+      });
+
+      try {
+        expect(await watcher.watch()).toEqual([path.resolve(testFile.name!)]);
+        await once(watcher, "build");
+        expect(mockedBuild.mock.calls[0][0]).toMatchObject({ metafile: true });
+        expect(watcher.backend.files()).toEqual([
+          path.resolve(testFile.name!),
+          path.resolve(testDepFile.name!),
+        ]);
+
+        const change = once(watcher, "change");
+        await testDepFile.write(EXPORT_FALSE_TEXT);
+        await change;
+      } finally {
+        watcher.close();
+      }
+    });
+  });
 });
 
 describe("watch()", () => {
@@ -309,3 +672,44 @@ describe("close()", () => {
     listeners.cleanup();
   });
 });
+
+describe("MultiBuildWatcher", () => {
+  it("rebuilds only the targets importing a changed file", async () => {
+    const testFileA = await getTestFile(EXPORT_TRUE_TEXT);
+    const testFileB = await getTestFile(EXPORT_TRUE_TEXT);
+    const watcher = new MultiBuildWatcher(
+      {
+        a: { entrypoints: [testFileA.name!] },
+        b: { entrypoints: [testFileB.name!] },
+      },
+      { quiet: true, debounce: 0 }
+    );
+
+    const builds: [target: string, buildId: number][] = [];
+    watcher.on("build", (buildOutput, changes, buildId, target) => {
+      builds.push([target, buildId]);
+    });
+
+    try {
+      expect(await watcher.watch()).toEqual([
+        path.resolve(testFileA.name!),
+        path.resolve(testFileB.name!),
+      ]);
+      await Bun.sleep(50);
+      expect(builds.toSorted()).toEqual([
+        ["a", 1],
+        ["b", 1],
+      ]);
+
+      watcher.emit("change", {
+        kind: "change",
+        path: path.resolve(testFileB.name!),
+        timestamp: Date.now(),
+      });
+      await Bun.sleep(50);
+      expect(builds.slice(2)).toEqual([["b", 2]]);
+    } finally {
+      watcher.close();
+    }
+  });
+});
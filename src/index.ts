@@ -12,24 +12,25 @@
  * @module build-watch
  */
 
-import { type BuildConfig, type BuildOutput, type TSConfig } from "bun";
+import { type BuildConfig, type BuildOutput } from "bun";
 import EventEmitter from "node:events";
 
 import path from "node:path";
 
-import DependencyWatcher, { type DepWatchEvents } from "./dep-watcher";
+import { importsFromMetafile, type Metafile } from "./find-imports";
+import ProcessRunner, { type ProcessRunnerOptions } from "./process-runner";
+import DependencyWatcher, {
+  type DepWatchEvents,
+  type DepWatchOptions,
+  type FileChange,
+  type ScanError,
+} from "./dep-watcher";
 
-type ScanOptions = Readonly<{
-  /**
-   * Use this `tsconfig.json` for the given file when scanning for import paths.
-   * If omitted, it will walk up the file system, looking for the nearest
-   * `tsconfig.json` for each file.
-   */
-  findTSConfig?(filePath: string): Promise<string | TSConfig | undefined>;
+export type BuildConcurrency = "queue" | "drop-stale" | "latest-wins";
 
-  /** Don't watch these globs. Defaults to `[ "./node_modules/**" ]`. */
-  exclude?: readonly string[];
-}>;
+export type BuildInputs = "scan" | "metafile";
+
+export type BuildRebuild = "all" | "affected";
 
 export type BuildWatchOptions = Readonly<{
   /** Disable clearing the terminal screen on change. Defaults to `true`. */
@@ -39,12 +40,62 @@ export type BuildWatchOptions = Readonly<{
   quiet?: boolean;
 
   /**
-   * Refresh the dependency tree every time `Bun.build` is called. Defaults to
-   * `false`.
+   * Wait this many milliseconds after a change for more changes before calling
+   * `Bun.build`, so every change in that window results in one build. Defaults
+   * to `20`.
+   */
+  debounce?: number;
+
+  /**
+   * What to do when a change happens while `Bun.build` is still running.
+   * Defaults to `"queue"`.
+   *
+   * - `"queue"` runs every build, one at a time and in order.
+   * - `"drop-stale"` runs one build at a time, merging every change made in
+   *   the meantime into the next build.
+   * - `"latest-wins"` starts a new build right away and drops the output of
+   *   every build a newer one started after. `Bun.build` can't be cancelled, so
+   *   a dropped build may still write to `outdir`.
+   */
+  concurrency?: BuildConcurrency;
+
+  /**
+   * How to find the files to watch. Defaults to `"scan"`.
+   *
+   * - `"scan"` scans the entrypoints for imports before building, and scans
+   *   files again as they change.
+   * - `"metafile"` watches the inputs `Bun.build` reports in its metafile
+   *   after every build, so the watched files always match what was bundled.
+   *   Only the entrypoints are watched until the first build, and a failed
+   *   build keeps watching the files of the last one that succeeded.
+   */
+  inputs?: BuildInputs;
+
+  /**
+   * Which entrypoints of a `BuildConfig` to build after a change. Defaults to
+   * `"all"`.
+   *
+   * - `"all"` builds every entrypoint.
+   * - `"affected"` builds only the entrypoints importing a changed file,
+   *   leaving the outputs of the others in `outdir` as they are. `root`
+   *   defaults to the directory every entrypoint is in, so the outputs keep
+   *   their paths. Every entrypoint is built when a file gets deleted or
+   *   renamed, or a file outside the graph changes, like a `tsconfig.json`.
+   *   Chunks shared with entrypoints that weren't built may go stale when
+   *   `splitting` is enabled.
+   */
+  rebuild?: BuildRebuild;
+
+  /**
+   * Run this command after every successful build, stopping the process it
+   * started last with `killSignal` first. A string runs through the shell.
+   * The process shares this process's stdio, and keeps running when a build
+   * fails.
    */
-  rescan?: boolean;
+  onSuccess?: string | readonly string[];
 }> &
-  ScanOptions;
+  ProcessRunnerOptions &
+  DepWatchOptions;
 
 const CURRENT_DIR = process.cwd();
 
@@ -89,6 +140,28 @@ export function formatWatchOutput(paths: Iterable<string>): Log[] {
   ];
 }
 
+export function formatScanError({ file, specifier, reason }: ScanError): Log[] {
+  const filePath = path.relative(CURRENT_DIR, file);
+  const message =
+    specifier === undefined ?
+      `couldn't scan ${filePath}: ${reason}`
+    : `couldn't resolve "${specifier}" in ${filePath}: ${reason}`;
+  return [{ display: "error", message }];
+}
+
+export function formatBuildError(
+  error: unknown,
+  target: string | undefined
+): Log[] {
+  const message = Bun.inspect(error);
+  return [
+    {
+      display: "error",
+      message: target === undefined ? message : `${target}: ${message}`,
+    },
+  ];
+}
+
 function logToConsole(logs: Log[]): void {
   for (const log of logs) {
     switch (log.display) {
@@ -110,55 +183,389 @@ export function logWatchOutput(paths: Iterable<string>): void {
   logToConsole(formatWatchOutput(paths));
 }
 
+export function logScanError(error: ScanError): void {
+  logToConsole(formatScanError(error));
+}
+
+export function logWatchError(error: unknown): void {
+  logToConsole([{ display: "error", message: Bun.inspect(error) }]);
+}
+
+export function logBuildError(
+  error: unknown,
+  buildId: number,
+  target: string | undefined
+): void {
+  logToConsole(formatBuildError(error, target));
+}
+
 export interface BuildWatchEvents extends DepWatchEvents {
-  build: [buildOutput: BuildOutput];
+  build: [
+    buildOutput: BuildOutput,
+    changes: FileChange[],
+    buildId: number,
+    target: string,
+  ];
+  /**
+   * emitted when a build throws instead of reporting a failed `BuildOutput`,
+   * or when a `build` listener throws. `target` is `undefined` if the error
+   * didn't come from one target's build.
+   */
+  "build-error": [error: unknown, buildId: number, target: string | undefined];
 }
 
-export default class BuildWatcher<
+/** `BuildConfig`s keyed by the name of the target they build */
+export type BuildTargets = Readonly<Record<string, BuildConfig>>;
+
+/** the name of the only target of a `BuildWatcher` */
+export const DEFAULT_TARGET = "default";
+
+function resolveEntrypoints({ entrypoints }: BuildConfig): string[] {
+  return entrypoints.map((entrypoint) => path.resolve(CURRENT_DIR, entrypoint));
+}
+
+/** returns the deepest directory containing every file, like `Bun.build` */
+function commonDir(filePaths: Iterable<string>): string {
+  let commonPath: string | undefined;
+  for (const filePath of filePaths) {
+    let dirPath = path.dirname(filePath);
+    commonPath ??= dirPath;
+    while (path.relative(dirPath, commonPath).startsWith("..")) {
+      dirPath = path.dirname(dirPath);
+    }
+    commonPath = dirPath;
+  }
+  return commonPath ?? CURRENT_DIR;
+}
+
+/**
+ * watches the files of several `BuildConfig`s with one dependency graph and
+ * one set of file watchers, rebuilding only the targets whose entrypoints
+ * import a changed file. Files are scanned with the plugins and loaders of
+ * every target.
+ */
+export class MultiBuildWatcher<
   Events extends BuildWatchEvents = BuildWatchEvents,
 > extends DependencyWatcher<Events> {
+  readonly targets: BuildTargets;
+  readonly concurrency: BuildConcurrency;
+  readonly inputs: BuildInputs;
+  readonly rebuild: BuildRebuild;
+  /** runs `onSuccess` after every successful build */
+  readonly runner: ProcessRunner | undefined;
   testId: string | undefined;
 
+  /** the absolute entrypoints of every target */
+  readonly #targetEntrypoints: ReadonlyMap<string, ReadonlySet<string>>;
+  #changes: FileChange[] = [];
+  /** whether the next build builds every target, like the first one */
+  #buildsAllTargets = true;
+  #debounceTimer: Timer | undefined;
+  #buildCount = 0;
+  #buildQueue = Promise.resolve();
+  #runningBuilds = 0;
+  #hasStaleChanges = false;
+  /** the id of the latest build started for every target */
+  #latestBuildIds = new Map<string, number>();
+  /** the metafile of the latest build of every target */
+  #metafiles = new Map<string, Metafile>();
+
   constructor(
-    buildConfig: BuildConfig,
+    targets: BuildTargets,
     {
       clearScreen = true,
       quiet = false,
-      rescan = false,
+      debounce = 20,
+      concurrency = "queue",
+      inputs = "scan",
+      rebuild = "all",
+      onSuccess,
+      killSignal,
+      killTimeout,
       ...scanOptions
     }: BuildWatchOptions = {}
   ) {
-    super(
-      buildConfig.entrypoints.map((entrypoint) =>
-        path.resolve(CURRENT_DIR, entrypoint)
+    const buildConfigs = Object.values(targets);
+    super(new Set(buildConfigs.flatMap(resolveEntrypoints)), {
+      plugins: buildConfigs.flatMap((buildConfig) => buildConfig.plugins ?? []),
+      loader: Object.assign(
+        {},
+        ...buildConfigs.map((buildConfig) => buildConfig.loader)
       ),
-      scanOptions
+      scan: inputs === "scan",
+      ...scanOptions,
+    });
+
+    this.targets = targets;
+    this.concurrency = concurrency;
+    this.inputs = inputs;
+    this.rebuild = rebuild;
+    this.runner =
+      onSuccess === undefined ? undefined : (
+        new ProcessRunner(onSuccess, { killSignal, killTimeout })
+      );
+    this.#targetEntrypoints = new Map(
+      Object.entries(targets).map(([target, buildConfig]) => [
+        target,
+        new Set(resolveEntrypoints(buildConfig)),
+      ])
     );
 
-    this.once("watch", async (...args) => {
-      const buildOutput = await Bun.build(buildConfig);
-      this.emit("build", buildOutput);
+    this.once("watch", () => this.#requestBuild());
+    this.on("change", (change) => {
+      this.#changes.push(change);
+      clearTimeout(this.#debounceTimer);
+      this.#debounceTimer = setTimeout(() => this.#requestBuild(), debounce);
     });
-    this.on("change", async (...args) => {
-      const buildOutput = await Bun.build(buildConfig);
-      this.emit("build", buildOutput);
+    this.once("close", () => {
+      clearTimeout(this.#debounceTimer);
+      this.runner?.stop();
     });
 
-    if (rescan) {
-      this.on("build", () => this.rescan());
-    }
-
     if (!quiet) {
-      if (clearScreen) {
-        this.on("build", (output) => {
+      // every target built together shares one screen
+      let clearedBuildId = 0;
+      this.on("build", (...[output, , buildId, target]) => {
+        if (clearScreen && buildId !== clearedBuildId) {
+          clearedBuildId = buildId;
           console.clear();
-          logBuildOutput(output);
+        }
+        if (buildConfigs.length > 1) console.log(`${target}:`);
+        logBuildOutput(output);
+      });
+
+      this.on("watch", logWatchOutput);
+      this.on("scan-error", logScanError);
+      this.on("build-error", logBuildError);
+      this.on("watch-error", logWatchError);
+    }
+  }
+
+  /**
+   * returns the entrypoints importing a changed file, or `undefined` if a
+   * changed file isn't in the graph anymore
+   */
+  #affectedEntrypoints(changes: FileChange[]): Set<string> | undefined {
+    const entrypoints = new Set<string>();
+    for (const change of changes) {
+      // deleted files and config files may affect any entrypoint
+      if (change.kind !== "change" || !this.graph.has(change.path)) {
+        return undefined;
+      }
+      for (const entrypoint of this.graph.entrypointsOf(change.path)) {
+        entrypoints.add(entrypoint);
+      }
+    }
+    return entrypoints;
+  }
+
+  /**
+   * takes every change made since the last build, along with the entrypoints
+   * of every target to build, which are `undefined` for the whole target
+   */
+  #takeChanges(): [
+    buildId: number,
+    changes: FileChange[],
+    targets: Map<string, string[] | undefined>,
+  ] {
+    const changes = this.#changes;
+    const affected =
+      this.#buildsAllTargets ? undefined : this.#affectedEntrypoints(changes);
+    this.#changes = [];
+    this.#buildsAllTargets = false;
+
+    const targets = new Map<string, string[] | undefined>();
+    for (const [target, entrypoints] of this.#targetEntrypoints) {
+      if (affected === undefined) {
+        targets.set(target, undefined);
+        continue;
+      }
+
+      const affectedEntrypoints = entrypoints.intersection(affected);
+      if (affectedEntrypoints.size === 0) continue;
+      targets.set(
+        target,
+        (
+          this.rebuild === "affected" &&
+            affectedEntrypoints.size < entrypoints.size
+        ) ?
+          [...affectedEntrypoints]
+        : undefined
+      );
+    }
+    return [++this.#buildCount, changes, targets];
+  }
+
+  /** starts or schedules a build according to `concurrency` */
+  #requestBuild(): void {
+    switch (this.concurrency) {
+      case "queue": {
+        const takenChanges = this.#takeChanges();
+        this.#buildQueue = this.#buildQueue.then(() =>
+          this.#runBuild(...takenChanges)
+        );
+        break;
+      }
+      case "drop-stale":
+        if (this.#runningBuilds > 0) {
+          // changes keep piling up until the running build finishes
+          this.#hasStaleChanges = true;
+          break;
+        }
+
+        this.#runBuild(...this.#takeChanges()).then(() => {
+          if (!this.#hasStaleChanges) return;
+          this.#hasStaleChanges = false;
+          this.#requestBuild();
         });
-      } else {
-        this.on("build", logBuildOutput);
+        break;
+      case "latest-wins":
+        this.#runBuild(...this.#takeChanges());
+        break;
+    }
+  }
+
+  #emitBuildError(
+    error: unknown,
+    buildId: number,
+    target: string | undefined
+  ): void {
+    try {
+      this.emit("build-error", error, buildId, target);
+    } catch (listenerError) {
+      // nothing is left to report a broken `build-error` listener to
+      console.error(listenerError);
+    }
+  }
+
+  /**
+   * runs a build, reporting its errors as `build-error` so they can't stop the
+   * builds after it
+   */
+  async #runBuild(
+    buildId: number,
+    changes: FileChange[],
+    targets: Map<string, string[] | undefined>
+  ): Promise<void> {
+    try {
+      await this.#build(buildId, changes, targets);
+    } catch (err) {
+      this.#emitBuildError(err, buildId, undefined);
+    }
+  }
+
+  async #buildTarget(
+    buildId: number,
+    target: string,
+    entrypoints: string[] | undefined
+  ): Promise<(BuildOutput & { metafile?: Metafile }) | undefined> {
+    try {
+      const targetConfig = this.targets[target];
+      // report build failures through `buildOutput.success` like Bun v1.1 did
+      const buildConfig = {
+        throw: false,
+        ...targetConfig,
+        ...(entrypoints && {
+          entrypoints,
+          root:
+            targetConfig.root ??
+            commonDir(this.#targetEntrypoints.get(target)!),
+        }),
+        ...(this.inputs === "metafile" && { metafile: true }),
+      };
+      return await Bun.build(buildConfig);
+    } catch (err) {
+      // don't let one broken build stop the other targets or later builds
+      this.#emitBuildError(err, buildId, target);
+      return undefined;
+    }
+  }
+
+  async #build(
+    buildId: number,
+    changes: FileChange[],
+    targets: Map<string, string[] | undefined>
+  ): Promise<void> {
+    if (targets.size === 0) return;
+
+    this.#runningBuilds++;
+    for (const target of targets.keys()) {
+      this.#latestBuildIds.set(target, buildId);
+    }
+    let buildOutputs: Map<string, BuildOutput & { metafile?: Metafile }>;
+    try {
+      buildOutputs = new Map(
+        (
+          await Promise.all(
+            targets
+              .entries()
+              .map(
+                async ([target, entrypoints]) =>
+                  [
+                    target,
+                    await this.#buildTarget(buildId, target, entrypoints),
+                  ] as const
+              )
+          )
+        ).filter(
+          (entry): entry is [string, BuildOutput & { metafile?: Metafile }] =>
+            entry[1] !== undefined &&
+            // drop the outputs of builds a newer one started after
+            (this.concurrency !== "latest-wins" ||
+              this.#latestBuildIds.get(entry[0]) === buildId)
+        )
+      );
+    } finally {
+      this.#runningBuilds--;
+    }
+
+    if (this.inputs === "metafile") {
+      for (const [target, { metafile }] of buildOutputs) {
+        if (!metafile) continue;
+        // a partial build only reports the inputs of the entrypoints it built
+        const inputs =
+          targets.get(target) === undefined ?
+            metafile.inputs
+          : { ...this.#metafiles.get(target)?.inputs, ...metafile.inputs };
+        this.#metafiles.set(target, { inputs });
+      }
+      if (this.#metafiles.size > 0 && this.state === "watching") {
+        const inputs = Object.assign(
+          {},
+          ...this.#metafiles.values().map((metafile) => metafile.inputs)
+        );
+        await this.setGraph(
+          importsFromMetafile(this.fullPaths, { inputs }, this.scanConfig)
+        );
       }
+    }
 
-      this.on("watch", logWatchOutput);
+    for (const [target, buildOutput] of buildOutputs) {
+      this.emit("build", buildOutput, changes, buildId, target);
+    }
+
+    if (
+      this.runner &&
+      buildOutputs.size > 0 &&
+      buildOutputs.values().every((buildOutput) => buildOutput.success) &&
+      this.state === "watching"
+    ) {
+      // builds don't wait for the previous process to exit
+      this.runner
+        .restart()
+        .catch((err) => this.#emitBuildError(err, buildId, undefined));
     }
   }
 }
+
+/** watches the files of a `BuildConfig`, rebuilding it whenever one changes */
+export default class BuildWatcher<
+  Events extends BuildWatchEvents = BuildWatchEvents,
+> extends MultiBuildWatcher<Events> {
+  readonly buildConfig: BuildConfig;
+
+  constructor(buildConfig: BuildConfig, options: BuildWatchOptions = {}) {
+    super({ [DEFAULT_TARGET]: buildConfig }, options);
+    this.buildConfig = buildConfig;
+  }
+}
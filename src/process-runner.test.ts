@@ -0,0 +1,56 @@
+import { describe, it, expect } from "bun:test";
+
+import ProcessRunner from "./process-runner";
+
+describe("restart()", () => {
+  it("stops the previous process before starting a new one", async () => {
+    const runner = new ProcessRunner(["sleep", "10"]);
+
+    try {
+      await runner.restart();
+      const first = runner.subprocess!;
+      await runner.restart();
+      expect(first.signalCode).toBe("SIGTERM");
+      expect(runner.subprocess).not.toBe(first);
+      expect(runner.subprocess!.exitCode).toBeNull();
+    } finally {
+      await runner.stop();
+    }
+  });
+
+  it("kills processes that ignore the signal after the timeout", async () => {
+    const runner = new ProcessRunner(
+      [
+        process.execPath,
+        "-e",
+        "process.on('SIGINT', () => {}); setInterval(() => {}, 1000);",
+      ],
+      { killSignal: "SIGINT", killTimeout: 50 }
+    );
+
+    await runner.restart();
+    const subprocess = runner.subprocess!;
+    // wait for the signal handler to be set up
+    await Bun.sleep(500);
+    await runner.stop();
+    expect(subprocess.signalCode).toBe("SIGKILL");
+    expect(runner.subprocess).toBeUndefined();
+  });
+
+  it("keeps working after a command fails to start", async () => {
+    const runner = new ProcessRunner(["!not!a!real!command!"]);
+
+    await expect(runner.restart()).rejects.toThrow();
+    await runner.stop();
+    await expect(runner.restart()).rejects.toThrow();
+    expect(runner.subprocess).toBeUndefined();
+  });
+});
+
+describe("stop()", () => {
+  it("does nothing when no process is running", async () => {
+    const runner = new ProcessRunner("exit 0");
+    await runner.stop();
+    expect(runner.subprocess).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import type { Subprocess } from "bun";
+
+export type ProcessRunnerOptions = Readonly<{
+  /**
+   * Send this signal to stop the previous process before starting a new one.
+   * Defaults to `"SIGTERM"`.
+   */
+  killSignal?: NodeJS.Signals;
+
+  /**
+   * Wait this many milliseconds for the previous process to exit after
+   * `killSignal` before sending `SIGKILL`. Defaults to `5000`.
+   */
+  killTimeout?: number;
+}>;
+
+/** returns the arguments that run `command` through the system's shell */
+function shellCommand(command: string): string[] {
+  return process.platform === "win32" ?
+      ["cmd.exe", "/d", "/s", "/c", command]
+    : ["sh", "-c", command];
+}
+
+/**
+ * runs one process at a time with the same command, stopping the previous one
+ * gracefully whenever it restarts, like a server after its bundle was rebuilt
+ */
+export default class ProcessRunner {
+  /** the command and its arguments, or a command line for the shell */
+  readonly command: readonly string[];
+  readonly killSignal: NodeJS.Signals;
+  readonly killTimeout: number;
+  /** the process started last, which may have exited already */
+  subprocess: Subprocess | undefined;
+
+  /** restarts and stops run one at a time, in order */
+  #queue = Promise.resolve();
+
+  constructor(
+    command: string | readonly string[],
+    { killSignal = "SIGTERM", killTimeout = 5000 }: ProcessRunnerOptions = {}
+  ) {
+    this.command =
+      typeof command === "string" ? shellCommand(command) : [...command];
+    this.killSignal = killSignal;
+    this.killTimeout = killTimeout;
+  }
+
+  async #stop(): Promise<void> {
+    const subprocess = this.subprocess;
+    this.subprocess = undefined;
+    if (subprocess === undefined || subprocess.exitCode !== null) return;
+
+    subprocess.kill(this.killSignal);
+    // some processes ignore signals, e.g. while handling a request
+    const killTimer = setTimeout(
+      () => subprocess.kill("SIGKILL"),
+      this.killTimeout
+    );
+    await subprocess.exited;
+    clearTimeout(killTimer);
+  }
+
+  /**
+   * stops the running process, waiting until it exits, then starts a new one
+   * that shares this process's stdio
+   */
+  restart(): Promise<void> {
+    return this.#enqueue(async () => {
+      await this.#stop();
+      this.subprocess = Bun.spawn([...this.command], {
+        stdio: ["inherit", "inherit", "inherit"],
+      });
+    });
+  }
+
+  /** stops the running process, waiting until it exits */
+  stop(): Promise<void> {
+    return this.#enqueue(() => this.#stop());
+  }
+
+  /**
+   * runs `task` after every other one, rejecting if it fails without failing
+   * the ones after it, e.g. when the command doesn't exist
+   */
+  #enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.#queue.then(task);
+    this.#queue = result.catch(() => {});
+    return result;
+  }
+}
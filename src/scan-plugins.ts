@@ -0,0 +1,174 @@
+import type {
+  BuildConfig,
+  BuildOutput,
+  ImportKind,
+  Loader,
+  OnLoadCallback,
+  OnLoadResult,
+  OnResolveCallback,
+  OnResolveResult,
+  PluginBuilder,
+  PluginConstraints,
+} from "bun";
+import path from "node:path";
+
+type Hook<Callback> = Readonly<{
+  constraints: PluginConstraints;
+  callback: Callback;
+}>;
+
+/**
+ * the builder Bun passes to a plugin's `setup`, whose methods return it so
+ * calls can be chained, including `onEnd`, which bun-types doesn't declare yet
+ */
+export type ChainablePluginBuilder = {
+  [Key in keyof PluginBuilder]: PluginBuilder[Key] extends (
+    (...args: infer Args) => void
+  ) ?
+    (...args: Args) => ChainablePluginBuilder
+  : PluginBuilder[Key];
+} & {
+  onEnd(
+    callback: (buildOutput: BuildOutput) => void | Promise<void>
+  ): ChainablePluginBuilder;
+};
+
+/** the source code of a module loaded by a plugin */
+export type LoadedModule = Readonly<{ contents: Uint8Array; loader: Loader }>;
+
+/** the namespace of modules registered with `PluginBuilder.module` */
+const VIRTUAL_NAMESPACE = "virtual";
+
+function matches(
+  { filter, namespace = "file" }: PluginConstraints,
+  hookPath: string,
+  hookNamespace: string
+): boolean {
+  // a global filter's `lastIndex` would make every other test fail
+  filter.lastIndex = 0;
+  return namespace === hookNamespace && filter.test(hookPath);
+}
+
+function toBytes(
+  contents: string | ArrayBufferView | ArrayBuffer | SharedArrayBuffer
+): Uint8Array {
+  if (typeof contents === "string") return new TextEncoder().encode(contents);
+  if (ArrayBuffer.isView(contents)) {
+    return new Uint8Array(
+      contents.buffer,
+      contents.byteOffset,
+      contents.byteLength
+    );
+  }
+  return new Uint8Array(contents);
+}
+
+/**
+ * runs the `onResolve` and `onLoad` hooks of the plugins passed to `Bun.build`,
+ * so the scanner finds the same files the bundler does
+ */
+export default class ScanPlugins {
+  /** the build config whose plugins and loaders to use */
+  readonly config: BuildConfig;
+  readonly #resolveHooks: Hook<OnResolveCallback>[] = [];
+  readonly #loadHooks: Hook<OnLoadCallback>[] = [];
+  readonly #modules = new Map<
+    string,
+    () => OnLoadResult | Promise<OnLoadResult>
+  >();
+  /** settles once every plugin's `setup` finished */
+  readonly #setup: Promise<unknown>;
+
+  constructor(config: BuildConfig) {
+    this.config = config;
+    const plugins = config.plugins ?? [];
+    // scanning doesn't bundle, so it never starts or ends
+    const builder: ChainablePluginBuilder = {
+      config: { ...config, plugins },
+      onStart: () => builder,
+      onEnd: () => builder,
+      onBeforeParse: () => builder,
+      onResolve: (constraints, callback) => {
+        this.#resolveHooks.push({ constraints, callback });
+        return builder;
+      },
+      onLoad: (constraints, callback) => {
+        this.#loadHooks.push({ constraints, callback });
+        return builder;
+      },
+      module: (specifier, callback) => {
+        this.#modules.set(specifier, callback);
+        return builder;
+      },
+    };
+
+    this.#setup = Promise.all(plugins.map((plugin) => plugin.setup(builder)));
+  }
+
+  /**
+   * runs the `onResolve` hooks matching `specifier` until one returns a
+   * result, returning `undefined` if none do
+   */
+  async resolve(
+    specifier: string,
+    importer: string,
+    namespace: string,
+    kind: ImportKind
+  ): Promise<OnResolveResult | undefined> {
+    await this.#setup;
+    if (this.#modules.has(specifier)) {
+      return { path: specifier, namespace: VIRTUAL_NAMESPACE };
+    }
+
+    for (const { constraints, callback } of this.#resolveHooks) {
+      if (!matches(constraints, specifier, namespace)) continue;
+
+      const result = await callback({
+        path: specifier,
+        importer,
+        namespace,
+        resolveDir: path.dirname(importer),
+        kind,
+      });
+      if (result) return result;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * runs the `onLoad` hooks matching `modulePath` until one returns source
+   * code, returning `undefined` if none do or a hook returned an object
+   */
+  async load(
+    modulePath: string,
+    namespace: string,
+    loader: Loader
+  ): Promise<LoadedModule | undefined> {
+    await this.#setup;
+
+    let result: OnLoadResult;
+    const virtualModule = this.#modules.get(modulePath);
+    if (namespace === VIRTUAL_NAMESPACE && virtualModule) {
+      result = await virtualModule();
+    } else {
+      for (const { constraints, callback } of this.#loadHooks) {
+        if (!matches(constraints, modulePath, namespace)) continue;
+
+        result = await callback({
+          path: modulePath,
+          namespace,
+          loader,
+          defer: () => Promise.resolve(),
+        });
+        if (result) break;
+      }
+    }
+
+    if (!result || !("contents" in result)) return undefined;
+    return {
+      contents: toBytes(result.contents),
+      loader: result.loader ?? loader,
+    };
+  }
+}
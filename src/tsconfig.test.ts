@@ -0,0 +1,105 @@
+import { describe, it, expect, afterAll, beforeEach } from "bun:test";
+import {
+  getTestFile,
+  cleanCurrentFiles,
+  cleanAllFiles,
+} from "../test/test-file-gen";
+import path from "node:path";
+
+import {
+  parseJSONC,
+  loadTSConfig,
+  resolveTSConfig,
+  resolveTSConfigPaths,
+} from "./tsconfig";
+
+beforeEach(async () => {
+  await cleanCurrentFiles();
+});
+
+afterAll(async () => {
+  await cleanAllFiles();
+});
+
+describe("parseJSONC()", () => {
+  it("ignores comments and trailing commas", () => {
+    const text = `{
+      // a comment
+      "a": "// not a comment", /* another comment */
+      "b": [1, 2,],
+    }`;
+    expect(parseJSONC(text)).toEqual({ a: "// not a comment", b: [1, 2] });
+  });
+});
+
+describe("loadTSConfig()", () => {
+  it("follows extends chains", async () => {
+    const baseFile = await getTestFile(
+      JSON.stringify({
+        compilerOptions: { paths: { "@app/*": ["./app/*"] }, jsx: "react" },
+      }),
+      ".json"
+    );
+    const configFile = await getTestFile(
+      JSON.stringify({
+        extends: `./${path.basename(baseFile.name!)}`,
+        compilerOptions: { jsx: "react-jsx" },
+      }),
+      ".json"
+    );
+
+    const dirPath = path.resolve(path.dirname(configFile.name!));
+    expect(await loadTSConfig(path.resolve(configFile.name!))).toEqual({
+      compilerOptions: {
+        paths: { "@app/*": [path.join(dirPath, "app/*")] },
+        jsx: "react-jsx",
+      },
+    });
+  });
+
+  it("resolves paths relative to an inherited baseUrl", async () => {
+    const baseFile = await getTestFile(
+      JSON.stringify({ compilerOptions: { paths: { "@app/*": ["app/*"] } } }),
+      ".json"
+    );
+    const configFile = await getTestFile(
+      JSON.stringify({
+        extends: `./${path.basename(baseFile.name!)}`,
+        compilerOptions: { baseUrl: "./src" },
+      }),
+      ".json"
+    );
+
+    const dirPath = path.resolve(path.dirname(configFile.name!));
+    expect(await loadTSConfig(path.resolve(configFile.name!))).toEqual({
+      compilerOptions: {
+        baseUrl: path.join(dirPath, "src"),
+        paths: { "@app/*": [path.join(dirPath, "src/app/*")] },
+      },
+    });
+  });
+});
+
+describe("resolveTSConfigPaths()", () => {
+  it("prefers the longest matching prefix", async () => {
+    const tsconfig = await resolveTSConfig(
+      {
+        compilerOptions: {
+          baseUrl: "/root",
+          paths: { "@app/*": ["app/*"], "@app/ui/*": ["ui/*", "ui2/*"] },
+        },
+      },
+      "/"
+    );
+
+    expect(resolveTSConfigPaths("@app/ui/button", tsconfig)).toEqual([
+      "/root/ui/button",
+      "/root/ui2/button",
+      "/root/@app/ui/button",
+    ]);
+    expect(resolveTSConfigPaths("@app/util", tsconfig)).toEqual([
+      "/root/app/util",
+      "/root/@app/util",
+    ]);
+  });
+});
@@ -0,0 +1,355 @@
+import type { JavaScriptLoader, TSConfig, Transpiler } from "bun";
+
+import { existsSync } from "node:fs";
+import path from "node:path";
+
+import type { ScanError } from "./dep-watcher";
+
+/** the files a directory's config is read from, in the order they're tried */
+export const CONFIG_FILENAMES = ["tsconfig.json", "jsconfig.json"] as const;
+
+type CompilerOptions = NonNullable<TSConfig["compilerOptions"]>;
+
+/** a `tsconfig.json` file, which may extend several others since TS 5.0 */
+type TSConfigFile = Omit<TSConfig, "extends"> & {
+  extends?: string | string[];
+};
+
+/** compiler options merged from a chain of configs */
+type MergedOptions = {
+  compilerOptions: CompilerOptions;
+  /** the directory of the config `paths` came from */
+  pathsDir?: string;
+};
+
+// strings are matched first so comments and commas inside them are kept
+const commentRegex = /("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+const trailingCommaRegex = /("(?:\\.|[^"\\])*")|,(?=\s*[}\]])/g;
+
+/** parses JSON with comments and trailing commas, like `tsconfig.json` */
+export function parseJSONC(text: string): unknown {
+  return JSON.parse(
+    text
+      .replace(commentRegex, (_, str: string | undefined) => str ?? "")
+      .replace(trailingCommaRegex, (_, str: string | undefined) => str ?? "")
+  );
+}
+
+/** finds the file an `extends` specifier of a config in `dirPath` refers to */
+function resolveExtends(specifier: string, dirPath: string): string {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    const configPath = path.resolve(dirPath, specifier);
+    return existsSync(configPath) ? configPath : `${configPath}.json`;
+  }
+
+  // packages like `@tsconfig/bun` can be extended by name
+  try {
+    return Bun.resolveSync(specifier, dirPath);
+  } catch {
+    return Bun.resolveSync(`${specifier}/tsconfig.json`, dirPath);
+  }
+}
+
+async function mergeTSConfig(
+  config: TSConfigFile,
+  dirPath: string,
+  ancestors: ReadonlySet<string>,
+  readPaths: Set<string>
+): Promise<MergedOptions> {
+  const merged: MergedOptions = { compilerOptions: {} };
+
+  const extendsPaths =
+    config.extends === undefined ? []
+    : typeof config.extends === "string" ? [config.extends]
+    : config.extends;
+  for (const extendsPath of extendsPaths) {
+    const base = await mergeTSConfigFile(
+      resolveExtends(extendsPath, dirPath),
+      ancestors,
+      readPaths
+    );
+    Object.assign(merged.compilerOptions, base.compilerOptions);
+    if (base.compilerOptions.paths) merged.pathsDir = base.pathsDir;
+  }
+
+  const { baseUrl, paths, ...compilerOptions } = config.compilerOptions ?? {};
+  Object.assign(merged.compilerOptions, compilerOptions);
+  // `baseUrl` is relative to the config that sets it, even when extended
+  if (baseUrl !== undefined) {
+    merged.compilerOptions.baseUrl = path.resolve(dirPath, baseUrl);
+  }
+  if (paths !== undefined) {
+    merged.compilerOptions.paths = paths;
+    merged.pathsDir = dirPath;
+  }
+
+  return merged;
+}
+
+async function mergeTSConfigFile(
+  configPath: string,
+  ancestors: ReadonlySet<string>,
+  readPaths: Set<string>
+): Promise<MergedOptions> {
+  // TypeScript reports circular `extends` chains as an error
+  if (ancestors.has(configPath)) {
+    throw new Error(`circular extends in tsconfig ${configPath}`);
+  }
+
+  readPaths.add(configPath);
+  const config = parseJSONC(await Bun.file(configPath).text()) as TSConfigFile;
+  return await mergeTSConfig(
+    config,
+    path.dirname(configPath),
+    new Set(ancestors).add(configPath),
+    readPaths
+  );
+}
+
+/**
+ * makes `paths` absolute, relative to `baseUrl` if any config sets it, or the
+ * config that sets `paths` otherwise
+ */
+function normalizeTSConfig({
+  compilerOptions,
+  pathsDir,
+}: MergedOptions): TSConfig {
+  const { paths, baseUrl } = compilerOptions;
+  const normalized: TSConfig = { compilerOptions: { ...compilerOptions } };
+
+  if (paths !== undefined) {
+    const pathsBase = baseUrl ?? pathsDir!;
+    normalized.compilerOptions!.paths = Object.fromEntries(
+      Object.entries(paths).map(([pattern, targets]) => [
+        pattern,
+        targets.map((target) => path.resolve(pathsBase, target)),
+      ])
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * merges every config a `tsconfig.json` in `dirPath` extends into it, making
+ * `baseUrl` and `paths` absolute. Text gets parsed first.
+ */
+export async function resolveTSConfig(
+  config: string | TSConfig,
+  dirPath: string
+): Promise<TSConfig> {
+  const configFile = (
+    typeof config === "string" ?
+      parseJSONC(config)
+    : config) as TSConfigFile;
+  return normalizeTSConfig(
+    await mergeTSConfig(configFile, dirPath, new Set(), new Set())
+  );
+}
+
+/**
+ * reads a `tsconfig.json` file, merging every config it extends into it and
+ * making `baseUrl` and `paths` absolute. Every file it read is added to
+ * `readPaths`, even if reading one of them failed.
+ */
+export async function loadTSConfig(
+  configPath: string,
+  readPaths: Set<string> = new Set()
+): Promise<TSConfig> {
+  return normalizeTSConfig(
+    await mergeTSConfigFile(configPath, new Set(), readPaths)
+  );
+}
+
+/**
+ * returns the absolute paths a bare `specifier` may refer to through the
+ * `paths` and `baseUrl` of a config returned by `resolveTSConfig`, in the
+ * order TypeScript tries them
+ */
+export function resolveTSConfigPaths(
+  specifier: string,
+  { compilerOptions }: TSConfig
+): string[] {
+  const { paths = {}, baseUrl } = compilerOptions ?? {};
+
+  // TypeScript picks the pattern with the longest prefix before its `*`
+  let bestTargets: string[] = [];
+  let bestPrefixLength = -1;
+  let bestMatch = "";
+  for (const [pattern, targets] of Object.entries(paths)) {
+    const starIndex = pattern.indexOf("*");
+    if (starIndex === -1) {
+      if (pattern !== specifier) continue;
+      bestTargets = targets;
+      bestMatch = "";
+      break;
+    }
+
+    const prefix = pattern.slice(0, starIndex);
+    const suffix = pattern.slice(starIndex + 1);
+    if (
+      prefix.length > bestPrefixLength &&
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix)
+    ) {
+      bestTargets = targets;
+      bestPrefixLength = prefix.length;
+      bestMatch = specifier.slice(
+        prefix.length,
+        specifier.length - suffix.length
+      );
+    }
+  }
+
+  const candidates = bestTargets.map((target) =>
+    target.replace("*", bestMatch)
+  );
+  if (baseUrl !== undefined) candidates.push(path.resolve(baseUrl, specifier));
+  return candidates;
+}
+
+type CachedTSConfig = Readonly<{
+  /** the merged config, or `undefined` if it couldn't be read */
+  config: TSConfig | undefined;
+  /** the config file and every file it extends */
+  configPaths: ReadonlySet<string>;
+}>;
+
+/**
+ * caches the nearest config of every directory, the configs themselves and a
+ * `Bun.Transpiler` for every config and loader, until a config file changes
+ */
+export class TSConfigCache {
+  /** the nearest config file of each directory looked up */
+  readonly #dirConfigPaths = new Map<string, Promise<string | undefined>>();
+  readonly #configs = new Map<string, Promise<CachedTSConfig>>();
+  /** configs this cache merged already, which don't need resolving again */
+  #resolvedConfigs = new WeakSet<TSConfig>();
+  readonly #transpilers = new Map<string, Transpiler>();
+  readonly #reportError: ((error: ScanError) => void) | undefined;
+
+  /**
+   * reports configs that can't be read with `reportError`, treating them as
+   * missing, or rejects if it wasn't given
+   */
+  constructor(reportError?: (error: ScanError) => void) {
+    this.#reportError = reportError;
+  }
+
+  #findDirConfigPath(dirPath: string): Promise<string | undefined> {
+    let configPath = this.#dirConfigPaths.get(dirPath);
+    if (configPath === undefined) {
+      configPath = (async () => {
+        for (const filename of CONFIG_FILENAMES) {
+          const filePath = path.join(dirPath, filename);
+          if (await Bun.file(filePath).exists()) return filePath;
+        }
+
+        // trying to walk up at the root returns the same path
+        const parentPath = path.dirname(dirPath);
+        if (parentPath === dirPath) return undefined;
+        return await this.#findDirConfigPath(parentPath);
+      })();
+      this.#dirConfigPaths.set(dirPath, configPath);
+    }
+    return configPath;
+  }
+
+  #loadConfig(configPath: string): Promise<CachedTSConfig> {
+    let config = this.#configs.get(configPath);
+    if (config === undefined) {
+      config = (async () => {
+        const configPaths = new Set<string>();
+        try {
+          const config = await loadTSConfig(configPath, configPaths);
+          this.#resolvedConfigs.add(config);
+          return { config, configPaths };
+        } catch (err) {
+          if (this.#reportError === undefined) throw err;
+          // a config may be broken while it's being edited, so keep watching it
+          this.#reportError({
+            file: configPath,
+            specifier: undefined,
+            reason: err instanceof Error ? err.message : String(err),
+          });
+          return { config: undefined, configPaths };
+        }
+      })();
+      this.#configs.set(configPath, config);
+    }
+    return config;
+  }
+
+  /**
+   * finds the nearest `tsconfig.json` or `jsconfig.json` of `filePath`, merging
+   * every config it extends into it
+   */
+  async findTSConfig(filePath: string): Promise<TSConfig | undefined> {
+    const configPath = await this.#findDirConfigPath(path.dirname(filePath));
+    if (configPath === undefined) return undefined;
+    return (await this.#loadConfig(configPath)).config;
+  }
+
+  /**
+   * merges every config `config` extends into it like `resolveTSConfig`,
+   * unless this cache did already
+   */
+  async resolveTSConfig(
+    config: string | TSConfig,
+    dirPath: string
+  ): Promise<TSConfig> {
+    if (typeof config !== "string" && this.#resolvedConfigs.has(config)) {
+      return config;
+    }
+    return await resolveTSConfig(config, dirPath);
+  }
+
+  /** returns a transpiler shared by every file using `tsconfig` and `loader` */
+  transpiler(
+    tsconfig: TSConfig | undefined,
+    loader: JavaScriptLoader
+  ): Transpiler {
+    const key = `${loader}:${JSON.stringify(tsconfig ?? null)}`;
+    let transpiler = this.#transpilers.get(key);
+    if (transpiler === undefined) {
+      transpiler = new Bun.Transpiler({ tsconfig, loader });
+      this.#transpilers.set(key, transpiler);
+    }
+    return transpiler;
+  }
+
+  /** returns every config file read so far, including the ones extended */
+  async configPaths(): Promise<string[]> {
+    const configs = await Promise.all(this.#configs.values());
+    return [...new Set(configs.flatMap(({ configPaths }) => [...configPaths]))];
+  }
+
+  /**
+   * returns the directories looked up that have no config of their own, where
+   * creating one would change the config of their files
+   */
+  async configlessDirs(): Promise<string[]> {
+    const dirConfigPaths = await Promise.all(
+      this.#dirConfigPaths
+        .entries()
+        .map(
+          async ([dirPath, configPath]) => [dirPath, await configPath] as const
+        )
+    );
+    return dirConfigPaths
+      .filter(
+        ([dirPath, configPath]) =>
+          configPath === undefined || path.dirname(configPath) !== dirPath
+      )
+      .map(([dirPath]) => dirPath);
+  }
+
+  /** forgets everything cached, e.g. after a config file changed */
+  clear(): void {
+    this.#dirConfigPaths.clear();
+    this.#configs.clear();
+    this.#resolvedConfigs = new WeakSet();
+    this.#transpilers.clear();
+  }
+}
@@ -0,0 +1,296 @@
+import type { FSWatcher, WatchEventType } from "node:fs";
+
+import { readdirSync, statSync, watch } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+
+export type WatchListeners = Readonly<{
+  /** called when a watched file changes, or gets renamed or deleted */
+  file(event: WatchEventType, filePath: string): void;
+
+  /** called when a file in a watched directory gets created or deleted */
+  dir(filePath: string): void;
+
+  /** called when watching fails after a file or directory started watching */
+  error(err: Error): void;
+}>;
+
+/** watches files and directories on behalf of a `DependencyWatcher` */
+export interface WatchBackend {
+  /** starts watching a file, throwing if it doesn't exist */
+  watchFile(filePath: string): void;
+
+  /** stops watching a file */
+  unwatchFile(filePath: string): void;
+
+  /** starts watching a directory for files created in it */
+  watchDir(dirPath: string): void;
+
+  /** stops watching a directory */
+  unwatchDir(dirPath: string): void;
+
+  /** returns every watched file */
+  files(): string[];
+
+  /** returns every watched directory */
+  dirs(): string[];
+
+  /** stops watching every file and directory */
+  clear(): void;
+}
+
+/** watches every file and directory with its own `fs.watch` handle */
+export class FileWatchBackend implements WatchBackend {
+  readonly listeners: WatchListeners;
+  #fileWatchers = new Map<string, FSWatcher>();
+  #dirWatchers = new Map<string, FSWatcher>();
+
+  constructor(listeners: WatchListeners) {
+    this.listeners = listeners;
+  }
+
+  watchFile(filePath: string): void {
+    this.unwatchFile(filePath);
+    const watcher = watch(filePath, (event) => {
+      // events may still arrive after the watcher was replaced
+      if (this.#fileWatchers.get(filePath) !== watcher) return;
+      this.listeners.file(event, filePath);
+    });
+    watcher.on("error", this.listeners.error);
+    this.#fileWatchers.set(filePath, watcher);
+  }
+
+  unwatchFile(filePath: string): void {
+    this.#fileWatchers.get(filePath)?.close();
+    this.#fileWatchers.delete(filePath);
+  }
+
+  watchDir(dirPath: string): void {
+    this.unwatchDir(dirPath);
+    const watcher = watch(dirPath, (event, filename) => {
+      if (this.#dirWatchers.get(dirPath) !== watcher) return;
+      if (filename !== null) this.listeners.dir(path.join(dirPath, filename));
+    });
+    watcher.on("error", this.listeners.error);
+    this.#dirWatchers.set(dirPath, watcher);
+  }
+
+  unwatchDir(dirPath: string): void {
+    this.#dirWatchers.get(dirPath)?.close();
+    this.#dirWatchers.delete(dirPath);
+  }
+
+  files(): string[] {
+    return [...this.#fileWatchers.keys()];
+  }
+
+  dirs(): string[] {
+    return [...this.#dirWatchers.keys()];
+  }
+
+  clear(): void {
+    for (const watcher of this.#fileWatchers.values()) watcher.close();
+    this.#fileWatchers.clear();
+    for (const watcher of this.#dirWatchers.values()) watcher.close();
+    this.#dirWatchers.clear();
+  }
+}
+
+/**
+ * watches only the directories containing watched files and filters their
+ * events, which needs far fewer `fs.watch` handles on large projects
+ */
+export class DirectoryWatchBackend implements WatchBackend {
+  readonly listeners: WatchListeners;
+  #files = new Set<string>();
+  #dirs = new Set<string>();
+  /** how many watched files each directory contains */
+  #fileCounts = new Map<string, number>();
+  #watchers = new Map<string, FSWatcher>();
+
+  constructor(listeners: WatchListeners) {
+    this.listeners = listeners;
+  }
+
+  /** opens or closes the handle on `dirPath` depending on whether it's used */
+  #updateHandle(dirPath: string): void {
+    const isUsed = this.#dirs.has(dirPath) || this.#fileCounts.has(dirPath);
+
+    const watcher = this.#watchers.get(dirPath);
+    if (isUsed && !watcher) {
+      const newWatcher = watch(dirPath, (event, filename) => {
+        if (filename === null) return;
+        const filePath = path.join(dirPath, filename);
+        if (this.#files.has(filePath)) this.listeners.file(event, filePath);
+        if (this.#dirs.has(dirPath)) this.listeners.dir(filePath);
+      });
+      newWatcher.on("error", this.listeners.error);
+      this.#watchers.set(dirPath, newWatcher);
+    } else if (!isUsed && watcher) {
+      watcher.close();
+      this.#watchers.delete(dirPath);
+    }
+  }
+
+  watchFile(filePath: string): void {
+    // throw like `fs.watch` would
+    statSync(filePath);
+    if (this.#files.has(filePath)) return;
+
+    const dirPath = path.dirname(filePath);
+    this.#files.add(filePath);
+    this.#fileCounts.set(dirPath, (this.#fileCounts.get(dirPath) ?? 0) + 1);
+    this.#updateHandle(dirPath);
+  }
+
+  unwatchFile(filePath: string): void {
+    if (!this.#files.delete(filePath)) return;
+
+    const dirPath = path.dirname(filePath);
+    const fileCount = this.#fileCounts.get(dirPath)! - 1;
+    if (fileCount > 0) {
+      this.#fileCounts.set(dirPath, fileCount);
+    } else {
+      this.#fileCounts.delete(dirPath);
+    }
+    this.#updateHandle(dirPath);
+  }
+
+  watchDir(dirPath: string): void {
+    this.#dirs.add(dirPath);
+    this.#updateHandle(dirPath);
+  }
+
+  unwatchDir(dirPath: string): void {
+    this.#dirs.delete(dirPath);
+    this.#updateHandle(dirPath);
+  }
+
+  files(): string[] {
+    return [...this.#files];
+  }
+
+  dirs(): string[] {
+    return [...this.#dirs];
+  }
+
+  clear(): void {
+    for (const watcher of this.#watchers.values()) watcher.close();
+    this.#watchers.clear();
+    this.#files.clear();
+    this.#dirs.clear();
+    this.#fileCounts.clear();
+  }
+}
+
+type FileSnapshot = Readonly<{ ino: number; size: number; mtimeMs: number }>;
+
+/**
+ * watches files and directories by comparing their `stat`s and entries every
+ * `interval` milliseconds, which works where `fs.watch` misses events, like
+ * Docker bind mounts, network file systems and WSL shares
+ */
+export class PollingWatchBackend implements WatchBackend {
+  readonly listeners: WatchListeners;
+  readonly interval: number;
+  #files = new Map<string, FileSnapshot>();
+  #dirs = new Map<string, Set<string>>();
+  #timer: Timer | undefined;
+  #isPolling = false;
+
+  constructor(listeners: WatchListeners, interval: number = 100) {
+    this.listeners = listeners;
+    this.interval = interval;
+  }
+
+  #startTimer(): void {
+    this.#timer ??= setInterval(() => this.#poll(), this.interval);
+  }
+
+  #stopTimerIfUnused(): void {
+    if (this.#files.size > 0 || this.#dirs.size > 0) return;
+    clearInterval(this.#timer);
+    this.#timer = undefined;
+  }
+
+  async #poll(): Promise<void> {
+    // a slow file system can take longer than `interval` to poll
+    if (this.#isPolling) return;
+    this.#isPolling = true;
+
+    try {
+      await Promise.all([
+        ...this.#files
+          .entries()
+          .map(([filePath, snapshot]) => this.#pollFile(filePath, snapshot)),
+        ...this.#dirs
+          .entries()
+          .map(([dirPath, filenames]) => this.#pollDir(dirPath, filenames)),
+      ]);
+    } finally {
+      this.#isPolling = false;
+    }
+  }
+
+  async #pollFile(filePath: string, snapshot: FileSnapshot): Promise<void> {
+    const stats = await stat(filePath).catch(() => undefined);
+    // the file may have been unwatched while polling
+    if (this.#files.get(filePath) !== snapshot) return;
+
+    if (stats === undefined || stats.ino !== snapshot.ino) {
+      if (stats !== undefined) this.#files.set(filePath, stats);
+      this.listeners.file("rename", filePath);
+    } else if (
+      stats.size !== snapshot.size ||
+      stats.mtimeMs !== snapshot.mtimeMs
+    ) {
+      this.#files.set(filePath, stats);
+      this.listeners.file("change", filePath);
+    }
+  }
+
+  async #pollDir(dirPath: string, filenames: Set<string>): Promise<void> {
+    const newFilenames = new Set(await readdir(dirPath).catch(() => []));
+    if (this.#dirs.get(dirPath) !== filenames) return;
+
+    this.#dirs.set(dirPath, newFilenames);
+    for (const filename of filenames.symmetricDifference(newFilenames)) {
+      this.listeners.dir(path.join(dirPath, filename));
+    }
+  }
+
+  watchFile(filePath: string): void {
+    const { ino, size, mtimeMs } = statSync(filePath);
+    this.#files.set(filePath, { ino, size, mtimeMs });
+    this.#startTimer();
+  }
+
+  unwatchFile(filePath: string): void {
+    this.#files.delete(filePath);
+    this.#stopTimerIfUnused();
+  }
+
+  watchDir(dirPath: string): void {
+    this.#dirs.set(dirPath, new Set(readdirSync(dirPath)));
+    this.#startTimer();
+  }
+
+  unwatchDir(dirPath: string): void {
+    this.#dirs.delete(dirPath);
+    this.#stopTimerIfUnused();
+  }
+
+  files(): string[] {
+    return [...this.#files.keys()];
+  }
+
+  dirs(): string[] {
+    return [...this.#dirs.keys()];
+  }
+
+  clear(): void {
+    this.#files.clear();
+    this.#dirs.clear();
+    this.#stopTimerIfUnused();
+  }
+}
@@ -2,16 +2,21 @@ import type { BunFile } from "bun";
 
 let currentId = 0;
 let lastCleanedId = 0;
+const extensions: string[] = [];
 function testFilePathFromId(id: number) {
-  return `./test/files/file-${id}.ts`;
+  return `./test/files/file-${id}${extensions[id]}`;
 }
 
-function getTestFilePath(): string {
+function getTestFilePath(ext: string): string {
+  extensions[currentId] = ext;
   return testFilePathFromId(currentId++);
 }
 
-export async function getTestFile(content: string = ""): Promise<BunFile> {
-  const filePath = getTestFilePath();
+export async function getTestFile(
+  content: string = "",
+  ext: string = ".ts"
+): Promise<BunFile> {
+  const filePath = getTestFilePath(ext);
   const file = Bun.file(filePath);
   await file.write(content);
   return file;